@@ -1,95 +1,200 @@
 import { App } from "@microsoft/teams.apps";
-import { LocalStorage } from "@microsoft/teams.common";
-import { MessageActivity, TokenCredentials } from '@microsoft/teams.api';
+import { ActivityLike, cardAttachment, Client, ConversationReference, IConversationUpdateActivity, IMessageActivity, IMessageReactionActivity, InvokeActivity, InvokeResponse, MentionEntity, MessageActivity, toActivityParams, TokenCredentials } from '@microsoft/teams.api';
+import { AdaptiveCard } from "@microsoft/teams.cards";
 import { ManagedIdentityCredential } from '@azure/identity';
+import { randomBytes } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
 import config from "../config";
+import { createGiveBurritoDialogCard, createLeaderboardCard, createOrgLeaderboardCard, createRedemptionCard, createReportCard, getLeaderboardRows, LEADERBOARD_VERB, LeaderboardPeriod, REDEMPTION_VERB, REPORT_VERB } from "./cards";
+import { Celebration, checkCelebrations, DEFAULT_MILESTONES, DEFAULT_STREAK_WEEKS, formatBadges, parseMilestones } from "./celebrations";
+import { CommandContext, CommandMatch, CommandRegistry, getCommandText, isBotMentioned } from "./commands";
+import { createExportLink, EXPORT_LINK_TTL_MS, ExportFormat, getExportedAwards, registerExportDownloads } from "./export";
+import { findImportAttachment, importAwards, readImportAttachment } from "./import";
+import { ANONYMISED_USER_ID, findUndoableAwards, formatRevokedAward, isActiveAward, isAnonymisedAward, revokeAwards, UNDO_WINDOW_MINUTES } from "./ledger";
+import { DateRange, getDateKey, getPeriodRange, isInRange, normalizeTimeZone, parseDateRange, REPORT_PERIODS, ReportPeriod } from "./periods";
+import { getConversationLabel, getOrgConversations, getOrgLeaderboardRows, getUserTotalsByConversation } from "./org";
+import { getRemainingQuota } from "./quota";
+import { applyRetention, ERASED_USER_NAME, forgetUser, parseRetentionDays } from "./retention";
+import { registerReportingApi, ReportingUser } from "./reporting";
+import { createModelClient, interpretMessage } from "./intents";
+import { findPersonalConversation, getMessageLink, getNotificationMode, getReceivedAwards, NOTIFICATION_DIGEST_HOUR, parseNotificationMode, setNotificationMode } from "./notifications";
+import { createTranslator, findLocale, resolveLocale, SUPPORTED_LOCALES, Translator } from "./i18n";
+import { getMessageAuthor, GIVE_BURRITO_COMMAND, hasReactedWithBurrito, isBurritoReaction, rememberBurritoReaction, rememberMessageAuthor } from "./reactions";
+import { applyMembershipChanges, ensureRoster, refreshRoster, resolveRecipients } from "./roster";
+import { formatDigestSchedule, getDigestRange, isDigestDue, parseDigestSchedule } from "./schedule";
+import {
+  addReward,
+  createRedemption,
+  decideRedemption,
+  findRedemption,
+  findReward,
+  findSpentRecipients,
+  formatRedemption,
+  formatReward,
+  getPendingRedemptions,
+  getSpendableBalance,
+  parseRewardDefinition
+} from "./rewards";
+import { ANOMALY_WINDOW_DAYS, findSuspiciousPairs, formatSuspiciousPair, getAnomalyRange, getRemainingPairAllowance, PAIR_LIMIT_PERIODS, PairLimitPeriod } from "./safeguards";
+import { createConversationStore } from "./storage";
+import { extractTags, filterAllowedTags, formatTag, getTopTags, normalizeTag } from "./tags";
+import { BurritoAward, ConversationData, ConversationSettings, Redemption, RosterMember, UserBurritoStats } from "./types";
 
-// Interfaces for burrito tracking
-interface BurritoAward {
-  id: string;
-  recipientId: string;
-  recipientName: string;
-  giverId: string;
-  giverName: string;
-  conversationId: string;
-  timestamp: Date;
-  reason?: string;
-}
+// Durable storage for burrito tracking, selected by BURRITO_STORAGE ("file" or "memory")
+const conversationStore = createConversationStore(config.BurritoStorageType, config.BurritoDataDirectory);
 
-interface UserBurritoStats {
-  userId: string;
-  userName: string;
-  totalReceived: number;
-  totalGiven: number;
-  lastUpdated: Date;
-}
+// Optional natural-language fallback for messages no command matches, selected by BURRITO_INTENT_MODEL
+// ("openai" or "stub"). It is off unless configured.
+const intentModel = createModelClient(config.BurritoIntentModel, {
+  apiKey: config.OpenAIApiKey,
+  model: config.OpenAIModel,
+  baseUrl: config.OpenAIBaseUrl
+});
+const intentInstructions = intentModel ? fs.readFileSync(path.join(__dirname, 'instructions.txt'), 'utf-8') : '';
 
-interface ConversationData {
-  conversationId: string;
-  admins: string[]; // User IDs of admins
-  burritoAwards: BurritoAward[];
-  userStats: Map<string, UserBurritoStats>;
-}
+// Loaded conversations are cached so concurrent messages in the same conversation share one object
+const conversationDataStore = new Map<string, ConversationData>();
 
-// Helper functions for date calculations
-const getDateKey = (date: Date, period: 'daily' | 'weekly' | 'monthly' | 'yearly'): string => {
-  const year = date.getFullYear();
-  const month = date.getMonth();
-  const day = date.getDate();
-  
-  switch (period) {
-    case 'daily':
-      return `${year}-${month + 1}-${day}`;
-    case 'weekly':
-      const startOfWeek = new Date(date);
-      startOfWeek.setDate(date.getDate() - date.getDay());
-      return `${startOfWeek.getFullYear()}-W${Math.ceil(startOfWeek.getDate() / 7)}`;
-    case 'monthly':
-      return `${year}-${month + 1}`;
-    case 'yearly':
-      return `${year}`;
-    default:
-      return `${year}-${month + 1}-${day}`;
-  }
+// Settings for conversations that have not been configured by an admin yet
+const createDefaultSettings = (): ConversationSettings => {
+  const dailyQuota = parseInt(config.BurritoDailyQuota || '', 10);
+  return {
+    dailyQuota: isNaN(dailyQuota) ? 5 : Math.max(0, dailyQuota),
+    timeZone: normalizeTimeZone(config.BurritoTimeZone || 'UTC') || 'UTC',
+    includeInOrgStats: true,
+    allowedTags: [],
+    pairLimit: 0,
+    pairLimitPeriod: 'weekly',
+    reciprocalThreshold: 3,
+    requireReason: false,
+    milestones: [...DEFAULT_MILESTONES],
+    streakWeeks: DEFAULT_STREAK_WEEKS,
+    retentionDays: 0
+  };
 };
 
-// Create storage for conversation history and burrito tracking
-const conversationDataStore = new Map<string, ConversationData>();
-
 // Helper functions for burrito tracking
 const getConversationData = async (conversationId: string): Promise<ConversationData> => {
-  const key = `burrito-data-${conversationId}`;
-  let data = conversationDataStore.get(key);
+  let data = conversationDataStore.get(conversationId);
   
   if (!data) {
-    data = {
-      conversationId: conversationId,
-      admins: [],
-      burritoAwards: [],
-      userStats: new Map<string, UserBurritoStats>()
-    };
-    conversationDataStore.set(key, data);
+    data = await conversationStore.get(conversationId);
+    if (!data) {
+      data = {
+        conversationId: conversationId,
+        admins: [],
+        burritoAwards: [],
+        userStats: new Map<string, UserBurritoStats>(),
+        settings: createDefaultSettings()
+      };
+    }
+    // Conversations saved before settings existed pick up the defaults
+    data.settings = { ...createDefaultSettings(), ...data.settings };
+    // Another message may have loaded it while we were waiting on storage
+    data = conversationDataStore.get(conversationId) || data;
+    conversationDataStore.set(conversationId, data);
   }
   
   return data;
 };
 
+// Conversations whose remembered message authors changed since they were last saved. The bot sees every message in
+// chats and channels, so these are saved in batches by the scheduler instead of writing the whole file per message.
+const unsavedAuthorChanges = new Set<string>();
+
 const saveConversationData = async (data: ConversationData): Promise<void> => {
-  const key = `burrito-data-${data.conversationId}`;
-  conversationDataStore.set(key, data);
+  conversationDataStore.set(data.conversationId, data);
+  unsavedAuthorChanges.delete(data.conversationId);
+  await conversationStore.set(data.conversationId, data);
+};
+
+// Saves the conversations that only have new message authors to store
+const saveRememberedAuthors = async (): Promise<void> => {
+  for (const conversationId of [...unsavedAuthorChanges]) {
+    await saveConversationData(await getConversationData(conversationId));
+  }
+};
+
+// Keeps the tenant, name and type of a conversation up to date for org-wide stats. Returns true when anything changed.
+const updateConversationDetails = (conversationData: ConversationData, activity: Pick<IMessageActivity, 'conversation' | 'channelData'>): boolean => {
+  const details = {
+    tenantId: activity.conversation.tenantId || activity.channelData?.tenant?.id,
+    conversationName: activity.conversation.name || activity.channelData?.channel?.name,
+    conversationType: `${activity.conversation.conversationType}`
+  };
+  let changed = false;
+  (Object.keys(details) as (keyof typeof details)[]).forEach(key => {
+    if (details[key] && conversationData[key] !== details[key]) {
+      conversationData[key] = details[key];
+      changed = true;
+    }
+  });
+  return changed;
+};
+
+// Every conversation the bot has stored
+const getAllConversationData = async (): Promise<ConversationData[]> => {
+  const conversations: ConversationData[] = [];
+  for (const conversationId of await conversationStore.keys()) {
+    conversations.push(await getConversationData(conversationId));
+  }
+  return conversations;
+};
+
+// Every stored conversation in the tenant that takes part in org-wide stats
+const getOrgConversationData = async (tenantId: string | undefined): Promise<ConversationData[]> => {
+  return getOrgConversations(await getAllConversationData(), tenantId);
+};
+
+// Replies use the conversation's chosen language, otherwise the language of the person who sent the activity
+const getTranslator = (conversationData: ConversationData, locale?: string): Translator => {
+  return createTranslator(resolveLocale(conversationData.settings.language, locale));
 };
 
 const isAdmin = (userId: string, conversationData: ConversationData): boolean => {
   return conversationData.admins.includes(userId);
 };
 
+// The name the bot last saw for someone in the conversation, from the roster or their burrito stats
+const findKnownName = (conversationData: ConversationData, userId: string): string | undefined => {
+  return conversationData.roster?.members.find(member => member.id === userId)?.name || conversationData.userStats.get(userId)?.userName;
+};
+
+// Users @mentioned in a message, not counting the bot itself
+const getMentionedUsers = (activity: IMessageActivity): { id: string; name: string }[] => {
+  return (activity.entities || [])
+    .filter((entity): entity is MentionEntity => entity.type === 'mention')
+    .filter(mention => mention.mentioned.id !== activity.recipient.id)
+    .map(mention => ({ id: mention.mentioned.id, name: mention.mentioned.name }));
+};
+
+const formatQuotaExhausted = (conversationData: ConversationData, t: Translator): string => {
+  const { dailyQuota, timeZone } = conversationData.settings;
+  return t('award.quotaExhausted', { count: dailyQuota, timeZone });
+};
+
+const formatPairLimitPeriod = (period: PairLimitPeriod, t: Translator): string => {
+  return t(`period.${period}` as const);
+};
+
+const formatQuotaRemaining = (conversationData: ConversationData, giverId: string, t: Translator): string => {
+  const remaining = getRemainingQuota(conversationData, giverId);
+  if (remaining === Infinity) {
+    return '';
+  }
+  return `\n${t('award.quotaRemaining', { count: remaining })}`;
+};
+
 const awardBurrito = (
   conversationData: ConversationData,
   recipientId: string,
   recipientName: string,
   giverId: string,
   giverName: string,
-  reason?: string
+  reason?: string,
+  timestamp: Date = new Date(), // Burritos given in one message share a timestamp, so "undo" takes them all back
+  tags: string[] = []
 ): BurritoAward => {
   const award: BurritoAward = {
     id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
@@ -98,8 +203,9 @@ const awardBurrito = (
     giverId,
     giverName,
     conversationId: conversationData.conversationId,
-    timestamp: new Date(),
-    reason
+    timestamp,
+    reason,
+    ...(tags.length > 0 && { tags })
   };
   
   // Add to awards list
@@ -140,52 +246,87 @@ const awardBurrito = (
   return award;
 };
 
-const showLeaderboard = async (conversationData: ConversationData, send: Function): Promise<void> => {
-  const userStatsArray = Array.from(conversationData.userStats.values())
-    .sort((a, b) => b.totalReceived - a.totalReceived)
-    .slice(0, 10);
+// Sends an Adaptive Card, falling back to the plain text version if the card can't be delivered
+const sendCard = async (send: Function, card: AdaptiveCard, fallbackText: string): Promise<void> => {
+  try {
+    await send(new MessageActivity().addCard('adaptive', card));
+  } catch (error) {
+    console.error('Failed to send card, falling back to text:', error);
+    await send(fallbackText);
+  }
+};
+
+const formatLeaderboard = (conversationData: ConversationData, t: Translator, tag?: string): string | undefined => {
+  const rows = getLeaderboardRows(conversationData, 'recipients', undefined, tag).slice(0, 10);
   
-  if (userStatsArray.length === 0) {
-    await send('🌯 No burritos have been awarded yet! Be the first to give someone a burrito!');
-    return;
+  if (rows.length === 0) {
+    return undefined;
   }
   
-  let leaderboard = '🏆 **Burrito Leaderboard** 🏆\n\n';
-  userStatsArray.forEach((stats, index) => {
+  let leaderboard = `${tag ? t('leaderboard.titleForTag', { tag: formatTag(tag) }) : t('leaderboard.title')}\n\n`;
+  rows.forEach((row, index) => {
     const medal = index === 0 ? '🥇' : index === 1 ? '🥈' : index === 2 ? '🥉' : `${index + 1}.`;
-    leaderboard += `${medal} ${stats.userName}: ${stats.totalReceived} burrito${stats.totalReceived !== 1 ? 's' : ''}\n`;
+    leaderboard += `${medal} ${row.userName}: ${t('burritos', { count: row.received })}\n`;
   });
   
-  await send(leaderboard);
+  return leaderboard;
 };
 
-const generateReport = (conversationData: ConversationData, period: 'daily' | 'weekly' | 'monthly' | 'yearly', date?: Date): string => {
-  const targetDate = date || new Date();
-  const periodKey = getDateKey(targetDate, period);
+const formatOrgLeaderboard = (conversations: ConversationData[], t: Translator): string | undefined => {
+  const rows = getOrgLeaderboardRows(conversations, 'recipients').slice(0, 10);
+  if (rows.length === 0) {
+    return undefined;
+  }
   
-  // Filter awards for the specified period
-  const periodAwards = conversationData.burritoAwards.filter(award => {
-    const awardDate = new Date(award.timestamp);
-    return getDateKey(awardDate, period) === periodKey;
+  let leaderboard = `${t('orgLeaderboard.title', { count: conversations.length })}\n\n`;
+  rows.forEach((row, index) => {
+    const medal = index === 0 ? '🥇' : index === 1 ? '🥈' : index === 2 ? '🥉' : `${index + 1}.`;
+    leaderboard += `${medal} ${row.userName}: ${t('burritos', { count: row.received })}\n`;
   });
   
-  if (periodAwards.length === 0) {
-    return `📊 No burritos were awarded during this ${period} period.`;
+  return leaderboard;
+};
+
+const showLeaderboard = async (conversationData: ConversationData, send: Function, t: Translator, tag?: string): Promise<void> => {
+  const leaderboard = formatLeaderboard(conversationData, t, tag);
+  
+  if (!leaderboard) {
+    await send(tag ? t('leaderboard.emptyForTag', { tag: formatTag(tag) }) : t('leaderboard.empty'));
+    return;
+  }
+  
+  await sendCard(send, createLeaderboardCard(conversationData, 'recipients', 'all', leaderboard, t, tag), leaderboard);
+};
+
+const generateReport = (conversationData: ConversationData, range: DateRange, t: Translator): string => {
+  // Filter awards for the specified range, keeping revoked ones aside for the audit trail
+  const rangeAwards = conversationData.burritoAwards.filter(award => isInRange(award.timestamp, range));
+  const periodAwards = rangeAwards.filter(isActiveAward);
+  const revokedAwards = rangeAwards.filter(award => !isActiveAward(award));
+  
+  if (rangeAwards.length === 0) {
+    return t('report.empty', { period: range.label });
   }
   
   // Calculate stats
   const recipientStats = new Map<string, number>();
   const giverStats = new Map<string, number>();
   
+  // Anonymised awards count towards the total but rank nobody, as on the leaderboard
   periodAwards.forEach(award => {
-    recipientStats.set(award.recipientName, (recipientStats.get(award.recipientName) || 0) + 1);
-    giverStats.set(award.giverName, (giverStats.get(award.giverName) || 0) + 1);
+    if (award.recipientId !== ANONYMISED_USER_ID) {
+      recipientStats.set(award.recipientName, (recipientStats.get(award.recipientName) || 0) + 1);
+    }
+    if (award.giverId !== ANONYMISED_USER_ID) {
+      giverStats.set(award.giverName, (giverStats.get(award.giverName) || 0) + 1);
+    }
   });
   
   // Build report
-  let report = `📊 **${period.charAt(0).toUpperCase() + period.slice(1)} Burrito Report**\n`;
-  report += `📅 Period: ${periodKey}\n`;
-  report += `🌯 Total Burritos Awarded: ${periodAwards.length}\n\n`;
+  const title = t(range.period ? `report.title.${range.period}` as const : 'report.title');
+  let report = `📊 **${title}**\n`;
+  report += `${t('report.period', { period: range.label, timeZone: conversationData.settings.timeZone })}\n`;
+  report += `${t('report.total', { count: periodAwards.length })}\n\n`;
   
   // Top recipients
   const topRecipients = Array.from(recipientStats.entries())
@@ -193,10 +334,10 @@ const generateReport = (conversationData: ConversationData, period: 'daily' | 'w
     .slice(0, 5);
   
   if (topRecipients.length > 0) {
-    report += '🏆 **Top Burrito Recipients:**\n';
+    report += `${t('report.topRecipients')}\n`;
     topRecipients.forEach(([name, count], index) => {
       const medal = index === 0 ? '🥇' : index === 1 ? '🥈' : index === 2 ? '🥉' : `${index + 1}.`;
-      report += `${medal} ${name}: ${count} burrito${count !== 1 ? 's' : ''}\n`;
+      report += `${medal} ${name}: ${t('burritos', { count })}\n`;
     });
     report += '\n';
   }
@@ -207,67 +348,1254 @@ const generateReport = (conversationData: ConversationData, period: 'daily' | 'w
     .slice(0, 5);
   
   if (topGivers.length > 0) {
-    report += '🤝 **Most Generous Burrito Givers:**\n';
+    report += `${t('report.topGivers')}\n`;
     topGivers.forEach(([name, count], index) => {
       const medal = index === 0 ? '🥇' : index === 1 ? '🥈' : index === 2 ? '🥉' : `${index + 1}.`;
-      report += `${medal} ${name}: ${count} burrito${count !== 1 ? 's' : ''} given\n`;
+      report += `${medal} ${name}: ${t('report.given', { count })}\n`;
+    });
+  }
+  
+  // Top values
+  const topTags = getTopTags(periodAwards).slice(0, 5);
+  if (topTags.length > 0) {
+    report += `\n${t('report.topValues')}\n`;
+    topTags.forEach(([tag, count]) => {
+      report += `• ${formatTag(tag)}: ${t('burritos', { count })}\n`;
+    });
+  }
+  
+  // Revoked awards
+  if (revokedAwards.length > 0) {
+    report += `\n${t('report.revoked', { count: revokedAwards.length })}\n`;
+    revokedAwards.slice(0, 10).forEach(award => {
+      report += `• ${formatRevokedAward(award, conversationData.settings.timeZone, t)}\n`;
     });
   }
   
   return report;
 };
 
-const handleAdminCommand = async (command: string, conversationData: ConversationData, send: Function): Promise<void> => {
-  const parts = command.split(' ');
-  const subCommand = parts[1]?.toLowerCase();
+// Remembers where a conversation lives, so the bot can post there later without being messaged first
+const getConversationReference = (activity: Pick<IMessageActivity, 'channelId' | 'serviceUrl' | 'recipient' | 'conversation'>): ConversationReference => ({
+  channelId: activity.channelId,
+  serviceUrl: activity.serviceUrl || app.api.serviceUrl,
+  bot: activity.recipient,
+  conversation: activity.conversation
+});
+
+// Finds who a "give <recipients> a burrito" message is for: any mix of @mentions and names from the roster, such as
+// "<at>Ana</at> <at>Raj</at> and Lee". Replies instead of guessing when a name matches nobody or several people,
+// unless `quiet`, which leaves names that match nobody unanswered.
+const resolveCommandRecipients = async (context: CommandContext, recipients: string, quiet = false): Promise<RosterMember[] | undefined> => {
+  const { activity, conversationData, send, api, t } = context;
+  const members: RosterMember[] = [];
+  // Teams writes each mention into the text as <at>Name</at>; whatever is left between them is typed names
+  const mentions = (activity.entities || []).filter((entity): entity is MentionEntity => entity.type === 'mention');
+  const typedNames = recipients.replace(/<at>.*?<\/at>/gi, tag => {
+    const mention = mentions.find(entity => entity.text?.toLowerCase() === tag.toLowerCase());
+    if (!mention) {
+      return ` , ${tag.replace(/<\/?at>/gi, '')} , `;
+    }
+    members.push({ id: mention.mentioned.id, name: mention.mentioned.name });
+    return ' , ';
+  });
+  if (members.length === 0 || typedNames.replace(/[\s,]+/g, '').length > 0) {
+    await ensureRoster(conversationData, api, activity.recipient.id);
+    const match = resolveRecipients(conversationData, typedNames);
+    switch (match.status) {
+      case 'ambiguous':
+        const choices = match.candidates.map(member => `• ${member.name}`).join('\n');
+        await send(t('recipient.ambiguous', { name: match.name, choices }));
+        return undefined;
+      case 'unknown':
+        if (!quiet) {
+          await send(t('recipient.notFound', { name: match.name }));
+        }
+        return undefined;
+    }
+    members.push(...match.members);
+  }
+  return members.filter((member, index) => members.findIndex(other => other.id === member.id) === index);
+};
+
+// What giveBurritos needs to know about the award: typed commands, reactions and the message action all provide it.
+// Hashtags in `text` are recorded as values.
+type AwardContext = Pick<CommandContext, 'conversationData' | 'send' | 'api' | 'userId' | 'userName' | 'text' | 't'> & {
+  activity: Pick<IMessageActivity, 'id' | 'channelId' | 'serviceUrl' | 'recipient' | 'conversation'>;
+  messageId?: string; // The message the burritos are for, when it isn't the activity itself, such as a reacted-to message
+};
+
+// Starts the bot's personal chat with someone, or finds it again: Teams returns the same conversation every time
+const openPersonalChat = async (context: AwardContext, userId: string): Promise<string> => {
+  const { activity, api, conversationData } = context;
+  const { tenantId } = conversationData;
+  const { id } = await api.conversations.create({
+    isGroup: false,
+    bot: activity.recipient,
+    members: [{ id: userId, name: '', role: 'user' }],
+    tenantId,
+    channelData: { tenant: { id: tenantId } }
+  });
+  return id;
+};
+
+// The personal chat of each person who set preferences, by tenant and person, so awards don't load every conversation
+// to find them. Built from storage on first use, then kept up to date as preferences are set.
+let personalChatIds: Map<string, string> | undefined;
+const getPersonalChatKey = (tenantId: string | undefined, userId: string): string => `${tenantId}|${userId}`;
+
+const getPersonalChatIds = async (): Promise<Map<string, string>> => {
+  if (!personalChatIds) {
+    const chatIds = new Map<string, string>();
+    for (const conversation of await getAllConversationData()) {
+      if (conversation.conversationType === 'personal') {
+        conversation.userPreferences?.forEach((_, userId) => chatIds.set(getPersonalChatKey(conversation.tenantId, userId), conversation.conversationId));
+      }
+    }
+    personalChatIds ??= chatIds;
+  }
+  return personalChatIds;
+};
+
+// The person's personal chat with the bot in the tenant, if they set their preferences there
+const findPersonalChat = async (userId: string, tenantId: string | undefined): Promise<ConversationData | undefined> => {
+  const conversationId = (await getPersonalChatIds()).get(getPersonalChatKey(tenantId, userId));
+  // The index can outlive the preferences, e.g. when someone is erased
+  return conversationId ? findPersonalConversation([await getConversationData(conversationId)], userId, tenantId) : undefined;
+};
+
+// Tells each recipient about their burritos in their personal chat, with a link to the message, unless they
+// turned notices off or asked for a daily summary. Notices that can't be delivered are logged and skipped.
+const notifyRecipients = async (context: AwardContext, awarded: { recipient: RosterMember; count: number }[], reason?: string): Promise<void> => {
+  const { activity, api, conversationData, userName } = context;
+  for (const { recipient, count } of awarded) {
+    try {
+      // Preferences are kept in the personal chat, once the recipient has set them there
+      const personal = await findPersonalChat(recipient.id, conversationData.tenantId);
+      const preferences = personal?.userPreferences?.get(recipient.id);
+      if (getNotificationMode(preferences) !== 'instant') {
+        continue;
+      }
+      const t = personal ? getTranslator(personal, preferences?.locale) : getTranslator(conversationData);
+      const lines = [t('notify.received', { giver: userName, count, chat: getConversationLabel(conversationData, t) })];
+      if (reason) {
+        lines.push(t('notify.reason', { reason }));
+      }
+      const messageId = context.messageId || activity.id;
+      if (messageId) {
+        lines.push(t('notify.link', { link: getMessageLink(activity.conversation.id, messageId, conversationData.tenantId) }));
+      }
+      lines.push(t('notify.settings'));
+      const personalChatId = personal?.conversationId || await openPersonalChat(context, recipient.id);
+      await api.conversations.activities(personalChatId).create(toActivityParams(new MessageActivity(lines.join('\n'))));
+    } catch (error) {
+      console.error(`Failed to notify ${recipient.id} about their burritos:`, error);
+    }
+  }
+};
+
+// Awards burritos from the sender to each recipient after the self-award, reason, quota and per-recipient checks,
+// then confirms everything in a single message. The sender is left out if they named themselves among others.
+const giveBurritos = async (context: AwardContext, recipients: RosterMember[], burritosRequested: number, reason?: string): Promise<void> => {
+  const { conversationData, send, userId, userName, t } = context;
+  const { settings } = conversationData;
+  const { accepted: tags, rejected: rejectedTags } = filterAllowedTags(extractTags(context.text), settings.allowedTags);
+  
+  // Prevent self-awarding
+  const others = recipients.filter(recipient => recipient.id !== userId);
+  if (others.length === 0) {
+    await send(t('award.self'));
+    return;
+  }
   
-  switch (subCommand) {
-    case 'add':
-      // Extract username from mention
-      const addMatch = command.match(/<at>([^<]+)<\/at>/);
-      if (!addMatch) {
-        await send('❌ Please mention a user to add as admin: `/admin add @username`');
+  if (settings.requireReason && !reason?.trim()) {
+    await send(t('award.reasonRequired', { name: others.map(recipient => recipient.name).join(', ') }));
+    return;
+  }
+  
+  // Enforce the daily giving quota, awarding only what is left of today's allowance
+  if (getRemainingQuota(conversationData, userId) === 0) {
+    await send(formatQuotaExhausted(conversationData, t));
+    return;
+  }
+  
+  // Burritos given in one message share a timestamp, so "undo" takes them back together
+  const awardedAt = new Date();
+  const awarded: { recipient: RosterMember; count: number; limit: string }[] = [];
+  const skipped: string[] = [];
+  const celebrations: Celebration[] = [];
+  for (const recipient of others) {
+    // Recipients share the giver's quota, in the order they were named
+    const remainingQuota = getRemainingQuota(conversationData, userId);
+    if (remainingQuota === 0) {
+      skipped.push(t('award.skippedQuota', { name: recipient.name }));
+      continue;
+    }
+    // Cap how often one person can reward the same recipient, so two people can't farm the leaderboard
+    const remainingForRecipient = getRemainingPairAllowance(conversationData, userId, recipient.id);
+    if (remainingForRecipient === 0) {
+      skipped.push(t('award.pairLimitReached', { name: recipient.name, count: settings.pairLimit, period: formatPairLimitPeriod(settings.pairLimitPeriod, t) }));
+      continue;
+    }
+    const count = Math.min(burritosRequested, remainingQuota, remainingForRecipient);
+    for (let i = 0; i < count; i++) {
+      awardBurrito(conversationData, recipient.id, recipient.name, userId, userName, reason, awardedAt, tags);
+    }
+    const limitedByRecipient = count === remainingForRecipient && remainingForRecipient < remainingQuota;
+    const limit = count >= burritosRequested
+      ? ''
+      : limitedByRecipient
+        ? t('award.limitedByRecipient', { count, period: formatPairLimitPeriod(settings.pairLimitPeriod, t) })
+        : t('award.limitedByQuota', { count });
+    awarded.push({ recipient, count, limit });
+    celebrations.push(...checkCelebrations(conversationData, recipient.id, userId, count, t, awardedAt));
+  }
+  if (awarded.length === 0) {
+    await send(skipped.join('\n'));
+    return;
+  }
+  await saveConversationData(conversationData);
+  
+  const getTotal = (recipient: RosterMember): number => conversationData.userStats.get(recipient.id)?.totalReceived || 0;
+  const lines: string[] = [];
+  if (others.length === 1) {
+    const { recipient, count, limit } = awarded[0];
+    lines.push(t(reason ? 'award.confirmedWithReason' : 'award.confirmed', { recipient: recipient.name, count, giver: userName, reason: reason || '' }));
+    if (limit) {
+      lines.push(limit);
+    }
+  } else {
+    lines.push(t(reason ? 'award.confirmedManyWithReason' : 'award.confirmedMany', { giver: userName, reason: reason || '' }));
+    awarded.forEach(({ recipient, count, limit }) => {
+      lines.push(`${t('award.recipientLine', { name: recipient.name, count, total: getTotal(recipient) })}${limit ? ` ${limit}` : ''}`);
+    });
+    lines.push(...skipped);
+  }
+  if (tags.length > 0) {
+    lines.push(t('award.values', { tags: tags.map(formatTag).join(' ') }));
+  }
+  if (rejectedTags.length > 0) {
+    lines.push(t('award.rejectedTags', { count: rejectedTags.length, tags: rejectedTags.map(formatTag).join(' '), allowed: settings.allowedTags.map(formatTag).join(' ') }));
+  }
+  // Show the recipient's total, which the lines above already include when there are several
+  if (others.length === 1) {
+    lines.push(t('award.total', { name: awarded[0].recipient.name, count: getTotal(awarded[0].recipient) }));
+  }
+  // First burritos, milestones and giving streaks
+  lines.push(...celebrations.map(celebration => celebration.message));
+  const quotaRemaining = formatQuotaRemaining(conversationData, userId, t);
+  await send(`${lines.join('\n')}${quotaRemaining}`);
+  await notifyRecipients(context, awarded, reason);
+};
+
+// Words of praise that surround a name in emoji-only awards, and so are never part of it
+const PRAISE_WORDS = new Set([
+  'great', 'good', 'nice', 'awesome', 'amazing', 'excellent', 'well', 'done', 'work', 'job', 'thanks', 'thank', 'you',
+  'so', 'much', 'very', 'really', 'and', 'burrito', 'burritos'
+]);
+
+// Guesses the recipient of an emoji-only award such as "🌯🌯 for John", "Great work Sarah! 🌯🌯" or "Danke, Jürgen 🌯".
+// Names keep their case and accents; the roster lookup ignores both.
+const findEmojiRecipientName = (text: string): string | undefined => {
+  const message = text.replace(/🌯/g, ' ');
+  // Every word that isn't praise is taken as the name
+  const findName = (part: string): string | undefined => {
+    const words: string[] = part.match(/[\p{L}\p{M}\p{N}_'-]+/gu) || [];
+    const typedName = words.filter(word => !PRAISE_WORDS.has(word.toLowerCase())).join(' ');
+    return typedName.length > 1 ? typedName : undefined;
+  };
+  // "Thanks Sarah for the review" names the recipient before "for" or "to", "🌯 for John" after it
+  const named = message.match(/^(.*?)(?:^|\s)(?:for|to)\s+@?([\p{L}\p{M}\p{N}\s_'-]+)/isu);
+  return named ? findName(named[1]) || findName(named[2]) : findName(message);
+};
+
+// Approves or denies a pending redemption and describes the outcome for the chat. Denied redemptions are refunded.
+const settleRedemption = (
+  redemption: Redemption,
+  decision: 'approved' | 'denied',
+  adminId: string,
+  adminName: string,
+  t: Translator
+): string => {
+  if (redemption.status !== 'pending') {
+    return t(redemption.status === 'approved' ? 'redemption.alreadyApproved' : 'redemption.alreadyDenied', {
+      user: redemption.userName,
+      reward: redemption.rewardName,
+      admin: redemption.decidedByName || t('common.anAdmin')
+    });
+  }
+  decideRedemption(redemption, decision, adminId, adminName);
+  const params = { admin: adminName, user: redemption.userName, reward: redemption.rewardName, count: redemption.cost };
+  return t(decision === 'approved' ? 'redemption.approved' : 'redemption.denied', params);
+};
+
+// Every command the bot understands. Help text is generated from this list, so it can't drift from what the bot does.
+const commands = new CommandRegistry();
+
+commands.register(
+  {
+    syntax: 'give|award|grant <recipient> [a] burrito|burritos [for|because <reason>]',
+    aliases: ['give|award|grant [a] burrito|burritos to <recipient> [for|because <reason>]'],
+    description: 'help.give',
+    // Recipients are looked up in the chat's members, and a personal chat has nobody else in it
+    scope: 'group',
+    unaddressed: true,
+    examples: ['give @Sarah a burrito for great work', 'give John a burrito 🌯🌯🌯', 'give @Ana @Raj and @Lee a burrito for the launch'],
+    handler: async (context, args) => {
+      const recipients = await resolveCommandRecipients(context, args.recipient!);
+      if (recipients) {
+        await giveBurritos(context, recipients, Math.max(1, context.burritoEmojiCount), args.reason);
+      }
+    }
+  },
+  {
+    syntax: '<recipient> 🌯',
+    description: 'help.emojiAward',
+    scope: 'group',
+    unaddressed: true,
+    examples: ['Great work Mike! 🌯🌯'],
+    parse: context => {
+      if (context.burritoEmojiCount === 0) {
+        return undefined;
+      }
+      // @mentions name the recipients outright. Teams writes them into the text as <at>Name</at>, which is what
+      // resolveCommandRecipients looks them up by.
+      const mentions = (context.activity.entities || [])
+        .filter((entity): entity is MentionEntity => entity.type === 'mention')
+        .filter(entity => entity.mentioned.id !== context.activity.recipient.id && entity.text)
+        .map(entity => entity.text!);
+      const recipient = mentions.length > 0 ? mentions.join(', ') : findEmojiRecipientName(context.text);
+      return recipient ? { recipient } : undefined;
+    },
+    handler: async (context, args) => {
+      // Emojis in chatter that isn't addressed to the bot often aren't awards, so unknown names there are ignored
+      const recipients = await resolveCommandRecipients(context, args.recipient!, !context.mentionsBot);
+      if (recipients) {
+        await giveBurritos(context, recipients, context.burritoEmojiCount);
+      }
+    }
+  },
+  {
+    syntax: 'undo [my] [last] [burrito|burritos|award]',
+    description: 'help.undo',
+    descriptionParams: { minutes: UNDO_WINDOW_MINUTES },
+    scope: 'all',
+    // Taken back the way it was given, right after an award
+    unaddressed: true,
+    handler: async ({ conversationData, send, userId, userName, t }) => {
+      const undoableAwards = findUndoableAwards(conversationData, userId);
+      if (undoableAwards.length === 0) {
+        await send(t('undo.nothing', { minutes: UNDO_WINDOW_MINUTES }));
         return;
       }
-      // This would need the actual user ID, but for now we'll use a placeholder
-      await send('⚠️ Admin management requires integration with Teams user directory. This feature needs additional setup.');
-      break;
-      
-    case 'report':
-      const period = parts[2]?.toLowerCase() as 'daily' | 'weekly' | 'monthly' | 'yearly';
-      if (!['daily', 'weekly', 'monthly', 'yearly'].includes(period)) {
-        await send('❌ Please specify a valid period: daily, weekly, monthly, or yearly\nExample: `/admin report weekly`');
+      const spentBy = findSpentRecipients(conversationData, undoableAwards);
+      if (spentBy.length > 0) {
+        await send(t('undo.spent', { names: spentBy.join(', ') }));
         return;
       }
-      const report = generateReport(conversationData, period);
-      await send(report);
-      break;
-      
-    case 'stats':
-      const statsMatch = command.match(/<at>([^<]+)<\/at>/);
-      if (!statsMatch) {
-        await send('❌ Please mention a user to get stats: `/admin stats @username`');
+      revokeAwards(conversationData, undoableAwards, userId, userName);
+      await saveConversationData(conversationData);
+      const undoneCount = undoableAwards.length;
+      const names = [...new Set(undoableAwards.map(award => award.recipientName))];
+      const undone = names.length > 1
+        ? t('undo.doneMany', { names: names.join(', '), count: undoneCount })
+        : t('undo.done', { name: names[0], count: undoneCount });
+      await send(`${undone}${formatQuotaRemaining(conversationData, userId, t)}`);
+    }
+  },
+  {
+    syntax: 'my burritos',
+    aliases: ['burrito count'],
+    description: 'help.myBurritos',
+    scope: 'all',
+    handler: async ({ conversationData, send, userId, userName, t }) => {
+      const userStats = conversationData.userStats.get(userId);
+      if (userStats) {
+        const badges = formatBadges(userStats, t);
+        const balance = conversationData.rewards?.length ? `\n${t('myBurritos.balance', { count: getSpendableBalance(conversationData, userId) })}` : '';
+        const summary = t('myBurritos.summary', {
+          name: userName,
+          received: t('burritos', { count: userStats.totalReceived }),
+          given: t('burritos', { count: userStats.totalGiven })
+        });
+        await send(`${summary}${badges ? `\n${t('myBurritos.badges', { badges })}` : ''}${balance}`);
+      } else {
+        await send(t('myBurritos.none', { name: userName }));
+      }
+    }
+  },
+  {
+    syntax: 'burrito leaderboard',
+    aliases: ['top burritos', 'leaderboard'],
+    description: 'help.leaderboard',
+    scope: 'all',
+    handler: async ({ conversationData, send, t }) => {
+      await showLeaderboard(conversationData, send, t);
+    }
+  },
+  {
+    syntax: 'burrito leaderboard #<tag>',
+    aliases: ['top burritos #<tag>', 'leaderboard #<tag>'],
+    description: 'help.leaderboardTag',
+    scope: 'all',
+    examples: ['burrito leaderboard #customer'],
+    handler: async ({ conversationData, send, t }, args) => {
+      await showLeaderboard(conversationData, send, t, normalizeTag(args.tag!));
+    }
+  },
+  {
+    syntax: 'burrito leaderboard org',
+    aliases: ['top burritos org', 'leaderboard org', 'org leaderboard'],
+    description: 'help.orgLeaderboard',
+    scope: 'all',
+    handler: async ({ conversationData, send, t }) => {
+      const conversations = await getOrgConversationData(conversationData.tenantId);
+      const leaderboard = formatOrgLeaderboard(conversations, t);
+      if (!leaderboard) {
+        await send(t('orgLeaderboard.empty'));
+        return;
+      }
+      const rows = getOrgLeaderboardRows(conversations, 'recipients');
+      await sendCard(send, createOrgLeaderboardCard(rows, 'recipients', conversations.length, leaderboard, t), leaderboard);
+    }
+  },
+  {
+    syntax: 'my burritos everywhere',
+    aliases: ['burrito count everywhere'],
+    description: 'help.myBurritosEverywhere',
+    scope: 'personal',
+    handler: async ({ conversationData, send, userId, userName, t }) => {
+      const totals = getUserTotalsByConversation(await getOrgConversationData(conversationData.tenantId), userId, t);
+      if (totals.length === 0) {
+        await send(t('everywhere.none', { name: userName }));
+        return;
+      }
+      const received = totals.reduce((sum, total) => sum + total.received, 0);
+      const given = totals.reduce((sum, total) => sum + total.given, 0);
+      const lines = totals.map(total => t('everywhere.line', { chat: total.conversationName, received: total.received, given: total.given })).join('\n');
+      await send(t('everywhere.summary', { name: userName, received, given, lines }));
+    }
+  },
+  {
+    syntax: 'notifications [<mode>]',
+    description: 'help.notifications',
+    scope: 'personal',
+    examples: ['notifications daily digest'],
+    handler: async ({ activity, conversationData, send, userId, t }, args) => {
+      if (!args.mode) {
+        const mode = getNotificationMode(conversationData.userPreferences?.get(userId));
+        await send(t('notifications.current', { mode: t(`notifications.mode.${mode}` as const) }));
+        return;
+      }
+      const mode = parseNotificationMode(args.mode);
+      if (!mode) {
+        await send(t('notifications.invalid'));
+        return;
+      }
+      setNotificationMode(conversationData, userId, mode, activity.locale);
+      (await getPersonalChatIds()).set(getPersonalChatKey(conversationData.tenantId, userId), conversationData.conversationId);
+      // Daily notifications are posted here without being asked, so remember where this chat is
+      conversationData.reference = getConversationReference(activity);
+      await saveConversationData(conversationData);
+      await send(t(`notifications.set.${mode}` as const, { time: `${String(NOTIFICATION_DIGEST_HOUR).padStart(2, '0')}:00` }));
+    }
+  },
+  {
+    syntax: 'rewards',
+    aliases: ['reward catalog', 'burrito rewards'],
+    description: 'help.rewards',
+    scope: 'all',
+    handler: async ({ conversationData, send, userId, t }) => {
+      const rewards = conversationData.rewards || [];
+      if (rewards.length === 0) {
+        await send(t('rewards.none'));
+        return;
+      }
+      const lines = [...rewards].sort((a, b) => a.cost - b.cost).map(reward => `• ${formatReward(reward)}`).join('\n');
+      await send(t('rewards.list', { lines, count: getSpendableBalance(conversationData, userId) }));
+    }
+  },
+  {
+    syntax: 'redeem <reward>',
+    description: 'help.redeem',
+    scope: 'all',
+    examples: ['redeem Lunch with the CTO'],
+    handler: async ({ conversationData, send, userId, userName, t }, args) => {
+      const match = findReward(conversationData, args.reward!);
+      if (match.status === 'ambiguous') {
+        await send(t('rewards.ambiguous', { choices: match.candidates.map(reward => `• ${formatReward(reward)}`).join('\n') }));
+        return;
+      }
+      if (match.status === 'missing') {
+        await send(t('rewards.missing', { reward: args.reward! }));
+        return;
+      }
+      const reward = match.reward;
+      const balance = getSpendableBalance(conversationData, userId);
+      if (balance < reward.cost) {
+        await send(t('rewards.insufficient', { reward: reward.name, count: reward.cost, balance }));
+        return;
+      }
+      const redemption = createRedemption(conversationData, reward, userId, userName);
+      await saveConversationData(conversationData);
+      const text = t('rewards.redeemed', { name: userName, reward: reward.name, count: reward.cost, id: redemption.id });
+      await sendCard(send, createRedemptionCard(redemption, balance - reward.cost, text, t), text);
+      // The card doesn't notify anyone, so the admins are @mentioned to decide on it
+      const admins = conversationData.admins
+        .filter(id => id !== userId)
+        .map(id => ({ id, name: findKnownName(conversationData, id) }))
+        .filter((admin): admin is { id: string; name: string } => !!admin.name);
+      if (admins.length > 0) {
+        const notice = new MessageActivity(t('rewards.adminsAsked', {
+          admins: admins.map(admin => `<at>${admin.name}</at>`).join(', '),
+          name: userName,
+          reward: reward.name
+        }));
+        admins.forEach(admin => notice.addMention({ ...admin, role: 'user' }, { addText: false }));
+        await send(notice);
+      }
+    }
+  },
+  {
+    syntax: 'help',
+    aliases: ['commands', 'what can you do'],
+    description: 'help.help',
+    scope: 'all',
+    handler: async ({ conversationData, send, userId, isGroupChat, t }) => {
+      let helpMessage = `${t(isGroupChat ? 'help.title.group' : 'help.title.personal')}\n\n${commands.formatHelp(['all', isGroupChat ? 'group' : 'personal'], t)}`;
+      helpMessage += isAdmin(userId, conversationData)
+        ? `\n\n${t('help.adminSection')}\n${commands.formatHelp(['admin'], t)}`
+        : `\n\n${t('help.adminHint')}`;
+      await send(`${helpMessage}\n\n${t('help.footer')}`);
+    }
+  },
+  {
+    syntax: 'hello|hi|hey [there]',
+    description: 'help.hello',
+    scope: 'all',
+    handler: async ({ send, isGroupChat, t }) => {
+      await send(t(isGroupChat ? 'hello.group' : 'hello.personal'));
+    }
+  },
+  {
+    syntax: '/makeadmin',
+    aliases: ['/makemeadmin'],
+    description: 'help.makeAdmin',
+    scope: 'all',
+    handler: async ({ activity, api, conversationData, send, userId, userName, t }) => {
+      if (conversationData.admins.includes(userId)) {
+        await send(t('makeAdmin.already', { name: userName, userId }));
+      } else if (conversationData.admins.length > 0) {
+        await send(t('makeAdmin.hasAdmins'));
+      } else {
+        // The roster links admins to the Entra accounts they open the dashboard tab with
+        await ensureRoster(conversationData, api, activity.recipient.id);
+        conversationData.admins.push(userId);
+        await saveConversationData(conversationData);
+        await send(t('makeAdmin.success', { name: userName, userId }));
+      }
+    }
+  },
+  {
+    syntax: '/debug',
+    aliases: ['/info'],
+    description: 'help.debug',
+    scope: 'all',
+    handler: async ({ activity, conversationData, send, userId, userName, isGroupChat, t }) => {
+      const debugInfo = t('debug.info', {
+        name: userName,
+        userId,
+        chatType: t(isGroupChat ? 'common.groupChat' : 'common.personalChat'),
+        conversationId: activity.conversation.id,
+        admin: t(isAdmin(userId, conversationData) ? 'common.yes' : 'common.no'),
+        adminCount: conversationData.admins.length,
+        language: `${t('language.name')} (${t.locale})`
+      });
+      await send(debugInfo);
+    }
+  },
+  {
+    syntax: '/testgroupchat',
+    aliases: ['/simulategroup'],
+    description: 'help.testGroupChat',
+    scope: 'all',
+    hidden: true,
+    handler: async ({ send, t }) => {
+      await send(t('testGroupChat.info'));
+    }
+  }
+);
+
+// Admin commands (work in both group and personal chat). The conversation is saved after each one.
+commands.register(
+  {
+    syntax: '/admin report [<range>]',
+    description: 'help.admin.report',
+    scope: 'admin',
+    handler: async ({ conversationData, send, t }, args) => {
+      const range = args.range ? parseDateRange(args.range, conversationData.settings.timeZone) : undefined;
+      if (!range) {
+        await send(t('report.invalidRange'));
         return;
       }
-      const userName = statsMatch[1];
-      const userStats = Array.from(conversationData.userStats.values()).find(s => s.userName === userName);
+      const report = generateReport(conversationData, range, t);
+      await sendCard(send, createReportCard(conversationData, range, report, t), report);
+    }
+  },
+  {
+    syntax: '/admin stats [<user>]',
+    description: 'help.admin.stats',
+    scope: 'admin',
+    handler: async ({ activity, conversationData, send, t }, args) => {
+      const mentioned = getMentionedUsers(activity)[0];
+      if (!mentioned && !args.user) {
+        await send(t('stats.missingUser'));
+        return;
+      }
+      const userName = mentioned?.name || args.user!.replace(/<\/?at>/g, '').replace(/^@/, '');
+      const userStats = (mentioned && conversationData.userStats.get(mentioned.id))
+        || Array.from(conversationData.userStats.values()).find(s => s.userName.toLowerCase() === userName.toLowerCase());
       if (userStats) {
-        await send(`📊 **Stats for ${userName}:**\n🌯 Burritos Received: ${userStats.totalReceived}\n🤝 Burritos Given: ${userStats.totalGiven}\n📅 Last Updated: ${new Date(userStats.lastUpdated).toLocaleDateString()}`);
+        await send(t('stats.summary', {
+          name: userStats.userName,
+          received: userStats.totalReceived,
+          given: userStats.totalGiven,
+          date: new Date(userStats.lastUpdated).toLocaleDateString(t.locale)
+        }));
       } else {
-        await send(`❌ No burrito stats found for ${userName}`);
+        await send(t('stats.notFound', { name: userName }));
       }
-      break;
-      
-    case 'leaderboard':
-      await showLeaderboard(conversationData, send);
-      break;
-      
-    default:
-      await send('❌ **Admin Commands:**\n• `/admin report daily/weekly/monthly/yearly` - Generate reports\n• `/admin stats @username` - Get user stats\n• `/admin add @username` - Add admin (needs setup)\n• `/admin leaderboard` - Show leaderboard');
+    }
+  },
+  {
+    syntax: '/admin add [<user>]',
+    description: 'help.admin.add',
+    scope: 'admin',
+    handler: async ({ activity, api, conversationData, send, t }) => {
+      const usersToAdd = getMentionedUsers(activity);
+      if (usersToAdd.length === 0) {
+        await send(t('admins.addMissing'));
+        return;
+      }
+      await ensureRoster(conversationData, api, activity.recipient.id);
+      for (const user of usersToAdd) {
+        if (conversationData.admins.includes(user.id)) {
+          await send(t('admins.alreadyAdmin', { name: user.name }));
+        } else {
+          conversationData.admins.push(user.id);
+          await send(t('admins.added', { name: user.name }));
+        }
+      }
+    }
+  },
+  {
+    syntax: '/admin remove [<user>]',
+    description: 'help.admin.remove',
+    scope: 'admin',
+    handler: async ({ activity, conversationData, send, t }) => {
+      const usersToRemove = getMentionedUsers(activity);
+      if (usersToRemove.length === 0) {
+        await send(t('admins.removeMissing'));
+        return;
+      }
+      for (const user of usersToRemove) {
+        if (!conversationData.admins.includes(user.id)) {
+          await send(t('admins.notAdmin', { name: user.name }));
+        } else if (conversationData.admins.length === 1) {
+          await send(t('admins.lastAdmin', { name: user.name }));
+        } else {
+          conversationData.admins = conversationData.admins.filter(id => id !== user.id);
+          await send(t('admins.removed', { name: user.name }));
+        }
+      }
+    }
+  },
+  {
+    syntax: '/admin list',
+    description: 'help.admin.list',
+    scope: 'admin',
+    handler: async ({ activity, conversationData, send, t }) => {
+      const adminLines = conversationData.admins.map(id => {
+        const knownName = id === activity.from.id ? activity.from.name : findKnownName(conversationData, id);
+        return `• ${knownName || id}`;
+      });
+      await send(t('admins.list', { count: conversationData.admins.length, lines: adminLines.join('\n') }));
+    }
+  },
+  {
+    syntax: '/admin leaderboard',
+    description: 'help.admin.leaderboard',
+    scope: 'admin',
+    handler: async ({ conversationData, send, t }) => {
+      await showLeaderboard(conversationData, send, t);
+    }
+  },
+  {
+    syntax: '/admin quota [<quota>]',
+    description: 'help.admin.quota',
+    scope: 'admin',
+    handler: async ({ conversationData, send, t }, args) => {
+      const quotaArg = (args.quota || '').trim();
+      if (!quotaArg) {
+        const { dailyQuota, timeZone } = conversationData.settings;
+        const quotaText = dailyQuota > 0 ? t('quota.perDay', { count: dailyQuota }) : t('quota.unlimited');
+        await send(t('quota.overview', { quota: quotaText, timeZone }));
+        return;
+      }
+      const newQuota = quotaArg.toLowerCase() === 'off' ? 0 : Number(quotaArg);
+      if (!Number.isInteger(newQuota) || newQuota < 0) {
+        await send(t('quota.invalid'));
+        return;
+      }
+      conversationData.settings.dailyQuota = newQuota;
+      await send(newQuota > 0 ? t('quota.set', { count: newQuota }) : t('quota.removed'));
+    }
+  },
+  {
+    syntax: '/admin timezone [<timeZone>]',
+    description: 'help.admin.timezone',
+    scope: 'admin',
+    handler: async ({ conversationData, send, t }, args) => {
+      if (!args.timeZone) {
+        await send(t('timeZone.current', { timeZone: conversationData.settings.timeZone }));
+        return;
+      }
+      const newTimeZone = normalizeTimeZone(args.timeZone);
+      if (!newTimeZone) {
+        await send(t('timeZone.invalid'));
+        return;
+      }
+      conversationData.settings.timeZone = newTimeZone;
+      await send(t('timeZone.set', { timeZone: newTimeZone }));
+    }
+  },
+  {
+    syntax: '/admin export [<format>] [<range>]',
+    description: 'help.admin.export',
+    scope: 'admin',
+    handler: async ({ conversationData, send, t }, args) => {
+      const format = args.format?.toLowerCase() as ExportFormat;
+      if (format !== 'csv' && format !== 'json') {
+        await send(t('export.invalidFormat'));
+        return;
+      }
+      const exportRange = args.range ? parseDateRange(args.range, conversationData.settings.timeZone) : undefined;
+      if (args.range && !exportRange) {
+        await send(t('export.invalidRange'));
+        return;
+      }
+      // Without the bot's public address there is no link to give, and a ledger is too big to post as a message
+      if (!config.BotEndpoint) {
+        await send(t('export.needsEndpoint'));
+        return;
+      }
+      const exportedAwards = getExportedAwards(conversationData.burritoAwards, exportRange);
+      const summary = t('export.summary', {
+        count: exportedAwards.length,
+        range: exportRange ? exportRange.label : t('export.allTime'),
+        format: format.toUpperCase()
+      });
+      const link = createExportLink(config.BotEndpoint, {
+        conversationId: conversationData.conversationId,
+        format,
+        range: exportRange,
+        expiresAt: Date.now() + EXPORT_LINK_TTL_MS
+      }, exportKey);
+      await send(t('export.download', { summary, link, minutes: EXPORT_LINK_TTL_MS / 60000 }));
+    }
+  },
+  {
+    // Teams only shares uploaded files with bots in personal chats, so history for a group chat or channel is
+    // imported from here, into a chat the sender administers
+    syntax: '/admin import [<conversation>]',
+    description: 'help.importInto',
+    scope: 'personal',
+    handler: async ({ activity, conversationData, send, userId, t }, args) => {
+      const administered = (await getAllConversationData()).filter(conversation =>
+        conversation.conversationType !== 'personal' && conversation.tenantId === conversationData.tenantId && isAdmin(userId, conversation)
+      );
+      const formatTargets = (targets: ConversationData[]) => targets
+        .map(target => t('import.target', { name: getConversationLabel(target, t), id: target.conversationId }))
+        .join('\n');
+      if (administered.length === 0) {
+        await send(t('import.noTargets'));
+        return;
+      }
+      if (!args.conversation) {
+        await send(t('import.chooseTarget', { lines: formatTargets(administered) }));
+        return;
+      }
+      // An exact ID or name wins over names that merely contain the text
+      const wanted = args.conversation.trim().toLowerCase();
+      const exact = administered.filter(target => target.conversationId.toLowerCase() === wanted || getConversationLabel(target, t).toLowerCase() === wanted);
+      const matches = exact.length > 0 ? exact : administered.filter(target => getConversationLabel(target, t).toLowerCase().includes(wanted));
+      if (matches.length === 0) {
+        await send(t('import.targetNotFound', { name: args.conversation.trim(), lines: formatTargets(administered) }));
+        return;
+      }
+      if (matches.length > 1) {
+        await send(t('import.ambiguousTarget', { name: args.conversation.trim(), lines: formatTargets(matches) }));
+        return;
+      }
+      const [target] = matches;
+      const instructions = t('import.instructions', { name: getConversationLabel(target, t), command: `/admin import ${args.conversation.trim()}` });
+      if (await importIntoConversation(target, activity, send, t, instructions)) {
+        await saveConversationData(target);
+      }
+    }
+  },
+  {
+    syntax: '/admin import',
+    description: 'help.admin.import',
+    scope: 'admin',
+    handler: async ({ activity, conversationData, send, t }) => {
+      // Clients such as the Agents Playground attach files here too, but Teams only shares them in personal chats
+      const instructions = t('import.instructionsGroup', { command: `/admin import ${getConversationLabel(conversationData, t)}` });
+      await importIntoConversation(conversationData, activity, send, t, instructions);
+    }
+  },
+  {
+    syntax: '/admin revoke [<id>]',
+    description: 'help.admin.revoke',
+    scope: 'admin',
+    handler: async ({ activity, conversationData, send, t }, args) => {
+      if (!args.id) {
+        const recentAwards = conversationData.burritoAwards.filter(award => isActiveAward(award) && !isAnonymisedAward(award)).slice(-10).reverse();
+        if (recentAwards.length === 0) {
+          await send(t('revoke.none'));
+          return;
+        }
+        const recentLines = recentAwards.map(award =>
+          `• \`${award.id}\` ${award.giverName} → ${award.recipientName} (${getDateKey(new Date(award.timestamp), 'daily', conversationData.settings.timeZone)})`
+        ).join('\n');
+        await send(t('revoke.recent', { lines: recentLines }));
+        return;
+      }
+      // Award IDs are matched case-insensitively, since Teams clients may change the case of typed text
+      const awardToRevoke = conversationData.burritoAwards.find(award => award.id.toLowerCase() === args.id!.toLowerCase());
+      if (!awardToRevoke) {
+        await send(t('revoke.notFound', { id: args.id! }));
+        return;
+      }
+      if (!isActiveAward(awardToRevoke)) {
+        await send(t('revoke.alreadyRevoked', { award: formatRevokedAward(awardToRevoke, conversationData.settings.timeZone, t) }));
+        return;
+      }
+      if (isAnonymisedAward(awardToRevoke)) {
+        await send(t('revoke.anonymised', { id: awardToRevoke.id }));
+        return;
+      }
+      if (findSpentRecipients(conversationData, [awardToRevoke]).length > 0) {
+        await send(t('revoke.spent', { name: awardToRevoke.recipientName, id: awardToRevoke.id }));
+        return;
+      }
+      revokeAwards(conversationData, [awardToRevoke], activity.from.id, activity.from.name || 'Unknown User');
+      await send(t('revoke.done', { giver: awardToRevoke.giverName, recipient: awardToRevoke.recipientName, id: awardToRevoke.id }));
+    }
+  },
+  {
+    syntax: '/admin schedule [<schedule>]',
+    description: 'help.admin.schedule',
+    scope: 'admin',
+    handler: async ({ activity, conversationData, send, t }, args) => {
+      const scheduleTimeZone = conversationData.settings.timeZone;
+      if (!args.schedule) {
+        await send(conversationData.digestSchedule
+          ? t('schedule.current', { schedule: formatDigestSchedule(conversationData.digestSchedule, t), timeZone: scheduleTimeZone })
+          : t('schedule.none'));
+        return;
+      }
+      const scheduleArgs = args.schedule.toLowerCase().split(' ');
+      if (scheduleArgs[0] === 'off') {
+        delete conversationData.digestSchedule;
+        await send(t('schedule.cancelled'));
+        return;
+      }
+      const schedule = parseDigestSchedule(scheduleArgs);
+      if (typeof schedule === 'string') {
+        await send(`❌ ${t(`schedule.error.${schedule}` as const)} ${t('schedule.usage')}`);
+        return;
+      }
+      conversationData.digestSchedule = schedule;
+      conversationData.reference = getConversationReference(activity);
+      await send(t('schedule.set', { schedule: formatDigestSchedule(schedule, t), timeZone: scheduleTimeZone }));
+    }
+  },
+  {
+    syntax: '/admin tags [<action>] [<tags>]',
+    description: 'help.admin.tags',
+    scope: 'admin',
+    handler: async ({ conversationData, send, t }, args) => {
+      const settings = conversationData.settings;
+      const action = args.action?.toLowerCase();
+      const tags = extractTags(args.tags || '');
+      const formatAllowed = () => settings.allowedTags.length > 0 ? settings.allowedTags.map(formatTag).join(' ') : t('tags.any');
+      switch (action) {
+        case undefined: {
+          const usage = getTopTags(conversationData.burritoAwards.filter(isActiveAward))
+            .slice(0, 10)
+            .map(([tag, count]) => `• ${formatTag(tag)}: ${t('burritos', { count })}`)
+            .join('\n');
+          await send(`${t('tags.overview', { allowed: formatAllowed() })}${usage ? `\n\n${t('tags.mostRecognised')}\n${usage}` : ''}\n\n${t('tags.change')}`);
+          return;
+        }
+        case 'add':
+        case 'remove':
+          if (tags.length === 0) {
+            await send(t('tags.missing', { action }));
+            return;
+          }
+          settings.allowedTags = action === 'add'
+            ? Array.from(new Set([...settings.allowedTags, ...tags]))
+            : settings.allowedTags.filter(tag => !tags.includes(tag));
+          await send(t('tags.updated', { allowed: formatAllowed() }));
+          return;
+        case 'clear':
+          settings.allowedTags = [];
+          await send(t('tags.cleared'));
+          return;
+        default:
+          await send(t('tags.usage'));
+      }
+    }
+  },
+  {
+    syntax: '/admin safeguards [<rule>] [<value>]',
+    description: 'help.admin.safeguards',
+    scope: 'admin',
+    handler: async ({ conversationData, send, t }, args) => {
+      const settings = conversationData.settings;
+      const rule = args.rule?.toLowerCase();
+      const [value, period] = (args.value || '').toLowerCase().split(' ');
+      const formatLimit = () => settings.pairLimit > 0
+        ? t(`safeguards.limit.${settings.pairLimitPeriod}` as const, { count: settings.pairLimit })
+        : t('safeguards.noLimit');
+      switch (rule) {
+        case undefined:
+          await send(t('safeguards.overview', {
+            limit: formatLimit(),
+            reciprocal: settings.reciprocalThreshold > 0 ? t('safeguards.flaggedAt', { count: settings.reciprocalThreshold }) : t('safeguards.notFlagged'),
+            reason: t(settings.requireReason ? 'safeguards.reasonRequired' : 'safeguards.reasonOptional')
+          }));
+          return;
+        case 'limit': {
+          const limit = value === 'off' ? 0 : Number(value);
+          const limitPeriod = (period || settings.pairLimitPeriod) as PairLimitPeriod;
+          if (!Number.isInteger(limit) || limit < 0 || !PAIR_LIMIT_PERIODS.includes(limitPeriod)) {
+            await send(t('safeguards.invalidLimit'));
+            return;
+          }
+          settings.pairLimit = limit;
+          settings.pairLimitPeriod = limitPeriod;
+          await send(limit > 0 ? t('safeguards.limitSet', { limit: formatLimit() }) : t('safeguards.limitRemoved'));
+          return;
+        }
+        case 'reciprocal': {
+          const threshold = value === 'off' ? 0 : Number(value);
+          if (!Number.isInteger(threshold) || threshold < 0) {
+            await send(t('safeguards.invalidReciprocal'));
+            return;
+          }
+          settings.reciprocalThreshold = threshold;
+          await send(threshold > 0 ? t('safeguards.reciprocalSet', { count: threshold }) : t('safeguards.reciprocalOff'));
+          return;
+        }
+        case 'reason':
+          if (value !== 'on' && value !== 'off') {
+            await send(t('safeguards.invalidReason'));
+            return;
+          }
+          settings.requireReason = value === 'on';
+          await send(t(settings.requireReason ? 'safeguards.reasonOn' : 'safeguards.reasonOff'));
+          return;
+        default:
+          await send(t('safeguards.usage'));
+      }
+    }
+  },
+  {
+    syntax: '/admin anomalies [<range>]',
+    description: 'help.admin.anomalies',
+    descriptionParams: { days: ANOMALY_WINDOW_DAYS },
+    scope: 'admin',
+    handler: async ({ conversationData, send, t }, args) => {
+      const range = args.range ? parseDateRange(args.range, conversationData.settings.timeZone) : getAnomalyRange(t);
+      if (!range) {
+        await send(t('anomalies.invalidRange'));
+        return;
+      }
+      if (conversationData.settings.reciprocalThreshold <= 0) {
+        await send(t('anomalies.off'));
+        return;
+      }
+      const pairs = findSuspiciousPairs(conversationData, range);
+      if (pairs.length === 0) {
+        await send(t('anomalies.none', { period: range.label }));
+        return;
+      }
+      const lines = pairs.slice(0, 20).map(pair => `• ${formatSuspiciousPair(pair, t)}`).join('\n');
+      const more = pairs.length > 20 ? `\n${t('common.more', { count: pairs.length - 20 })}` : '';
+      await send(t('anomalies.list', { period: range.label, count: conversationData.settings.reciprocalThreshold, lines: `${lines}${more}` }));
+    }
+  },
+  {
+    syntax: '/admin milestones [<milestones>]',
+    description: 'help.admin.milestones',
+    scope: 'admin',
+    handler: async ({ conversationData, send, t }, args) => {
+      const settings = conversationData.settings;
+      const input = (args.milestones || '').toLowerCase();
+      const formatMilestones = () => settings.milestones.length > 0 ? settings.milestones.join(', ') : t('milestones.none');
+      const formatStreak = () => settings.streakWeeks > 0 ? t('milestones.streak', { count: settings.streakWeeks }) : t('milestones.streakOff');
+      if (!input) {
+        await send(t('milestones.overview', { milestones: formatMilestones(), streak: formatStreak() }));
+        return;
+      }
+      const streak = input.match(/^streak (\S+)$/);
+      if (streak) {
+        const weeks = streak[1] === 'off' ? 0 : Number(streak[1]);
+        if (!Number.isInteger(weeks) || weeks < 0) {
+          await send(t('milestones.invalidStreak'));
+          return;
+        }
+        settings.streakWeeks = weeks;
+        await send(t('milestones.streakSet', { streak: formatStreak() }));
+        return;
+      }
+      const milestones = input === 'off' ? [] : parseMilestones(input);
+      if (!milestones) {
+        await send(t('milestones.invalid'));
+        return;
+      }
+      settings.milestones = milestones;
+      await send(t('milestones.set', { milestones: formatMilestones() }));
+    }
+  },
+  {
+    syntax: '/admin rewards [<action>] [<details>]',
+    description: 'help.admin.rewards',
+    scope: 'admin',
+    handler: async ({ conversationData, send, t }, args) => {
+      const action = args.action?.toLowerCase();
+      const rewards = conversationData.rewards || [];
+      switch (action) {
+        case undefined: {
+          const lines = rewards.map(reward => `• ${formatReward(reward)} (ID \`${reward.id}\`)`).join('\n');
+          await send(t('rewards.catalog', { lines: lines || t('rewards.noneYet') }));
+          return;
+        }
+        case 'add': {
+          const definition = parseRewardDefinition(args.details || '');
+          if (!definition) {
+            await send(t('rewards.invalidDefinition'));
+            return;
+          }
+          if (rewards.some(reward => reward.name.toLowerCase() === definition.name.toLowerCase())) {
+            await send(t('rewards.duplicate', { name: definition.name }));
+            return;
+          }
+          const reward = addReward(conversationData, definition.name, definition.cost);
+          await send(t('rewards.added', { reward: formatReward(reward) }));
+          return;
+        }
+        case 'remove': {
+          const match = findReward(conversationData, args.details || '');
+          if (match.status !== 'found') {
+            await send(t('rewards.invalidRemove'));
+            return;
+          }
+          conversationData.rewards = rewards.filter(reward => reward !== match.reward);
+          await send(t('rewards.removed', { name: match.reward.name }));
+          return;
+        }
+        default:
+          await send(t('rewards.usage'));
+      }
+    }
+  },
+  {
+    syntax: '/admin redemptions',
+    description: 'help.admin.redemptions',
+    scope: 'admin',
+    handler: async ({ conversationData, send, t }) => {
+      const pending = getPendingRedemptions(conversationData);
+      if (pending.length === 0) {
+        await send(t('redemptions.none'));
+        return;
+      }
+      const lines = pending.map(redemption => `• ${formatRedemption(redemption)}`).join('\n');
+      await send(t('redemptions.list', { lines }));
+    }
+  },
+  {
+    syntax: '/admin approve <id>',
+    description: 'help.admin.approve',
+    scope: 'admin',
+    handler: async ({ activity, conversationData, send, t }, args) => {
+      const redemption = findRedemption(conversationData, args.id!);
+      await send(redemption
+        ? settleRedemption(redemption, 'approved', activity.from.id, activity.from.name || 'Unknown User', t)
+        : t('redemption.notFound', { id: args.id! }));
+    }
+  },
+  {
+    syntax: '/admin deny <id>',
+    description: 'help.admin.deny',
+    scope: 'admin',
+    handler: async ({ activity, conversationData, send, t }, args) => {
+      const redemption = findRedemption(conversationData, args.id!);
+      await send(redemption
+        ? settleRedemption(redemption, 'denied', activity.from.id, activity.from.name || 'Unknown User', t)
+        : t('redemption.notFound', { id: args.id! }));
+    }
+  },
+  {
+    syntax: '/admin org [<setting>]',
+    description: 'help.admin.org',
+    scope: 'admin',
+    handler: async ({ conversationData, send, t }, args) => {
+      const setting = args.setting?.toLowerCase();
+      if (!setting) {
+        await send(t(conversationData.settings.includeInOrgStats ? 'org.included' : 'org.excluded'));
+        return;
+      }
+      if (setting !== 'on' && setting !== 'off') {
+        await send(t('org.invalid'));
+        return;
+      }
+      conversationData.settings.includeInOrgStats = setting === 'on';
+      await send(t(setting === 'on' ? 'org.nowIncluded' : 'org.nowExcluded'));
+    }
+  },
+  {
+    syntax: '/admin language [<language>]',
+    description: 'help.admin.language',
+    scope: 'admin',
+    handler: async ({ activity, conversationData, send, t }, args) => {
+      const settings = conversationData.settings;
+      const languages = SUPPORTED_LOCALES.map(locale => `\`${locale}\``).join(', ');
+      if (!args.language) {
+        await send(settings.language ? t('settings.language.current', { language: t('language.name') }) : t('settings.language.auto', { languages }));
+        return;
+      }
+      if (args.language.toLowerCase() === 'auto') {
+        delete settings.language;
+        await send(createTranslator(resolveLocale(activity.locale))('settings.language.setAuto'));
+        return;
+      }
+      const locale = findLocale(args.language);
+      if (!locale) {
+        await send(t('settings.language.invalid', { languages }));
+        return;
+      }
+      settings.language = locale;
+      // Confirm in the new language, so the admin can see the change took effect
+      await send(createTranslator(locale)('settings.language.set'));
+    }
+  },
+  {
+    syntax: '/admin retention [<period>]',
+    description: 'help.admin.retention',
+    scope: 'admin',
+    examples: ['/admin retention 365d'],
+    handler: async ({ conversationData, send, t }, args) => {
+      const settings = conversationData.settings;
+      if (!args.period) {
+        await send(settings.retentionDays ? t('retention.current', { count: settings.retentionDays }) : t('retention.off'));
+        return;
+      }
+      const days = parseRetentionDays(args.period);
+      if (days === undefined) {
+        await send(t('retention.invalid'));
+        return;
+      }
+      settings.retentionDays = days;
+      if (days === 0) {
+        await send(t('retention.disabled'));
+        return;
+      }
+      // Awards already past the new period are anonymised straight away; the scheduler takes care of the rest as they age
+      const anonymised = applyRetention(conversationData);
+      await send(`${t('retention.set', { count: days })}\n${t('retention.applied', { count: anonymised })}`);
+    }
+  },
+  {
+    syntax: '/admin forget [<user>]',
+    description: 'help.admin.forget',
+    scope: 'admin',
+    examples: ['/admin forget @Sarah'],
+    handler: async ({ activity, conversationData, send, userId, userName, t }, args) => {
+      const mentioned = getMentionedUsers(activity)[0];
+      if (!mentioned && !args.user) {
+        const erasures = conversationData.erasures || [];
+        const lines = erasures.map(erasure => t('forget.logLine', {
+          date: getDateKey(new Date(erasure.erasedAt), 'daily', conversationData.settings.timeZone),
+          admin: erasure.erasedByName,
+          id: erasure.pseudonymId,
+          count: erasure.awards
+        }));
+        await send(`${t('forget.usage')}${lines.length > 0 ? `\n\n${t('forget.log', { lines: lines.join('\n') })}` : ''}`);
+        return;
+      }
+      // Anyone can become admin of their own personal chat, so erasing is only done from chats shared with others
+      if (conversationData.conversationType === 'personal') {
+        await send(t('forget.personal'));
+        return;
+      }
+      // Erasure covers every group chat and channel in the tenant that the caller administers
+      const others = conversationData.tenantId
+        ? (await getAllConversationData()).filter(conversation =>
+          conversation.tenantId === conversationData.tenantId && conversation.conversationId !== conversationData.conversationId
+          && conversation.conversationType !== 'personal' && isAdmin(userId, conversation)
+        )
+        : [];
+      const conversations = [conversationData, ...others];
+      // People who have left can't be @mentioned, so the name or user ID recorded in any of those chats works too
+      const typed = args.user?.replace(/<\/?at>/g, '').replace(/^@/, '').trim() || '';
+      const known = new Map<string, string>();
+      conversations.forEach(conversation => conversation.userStats.forEach(stats => known.set(stats.userId, stats.userName)));
+      const named = Array.from(known).filter(([id, name]) => id === typed || name.toLowerCase() === typed.toLowerCase());
+      if (!mentioned && named.length > 1) {
+        await send(t('forget.ambiguous', { name: typed }));
+        return;
+      }
+      const target = mentioned || (named[0] ? { id: named[0][0], name: named[0][1] } : { id: typed, name: typed });
+      const result = forgetUser(conversations, target.id, userId, userName);
+      switch (result.status) {
+        case 'lastAdmin':
+          await send(result.conversation === conversationData
+            ? t('forget.lastAdmin', { name: target.name })
+            : t('forget.lastAdminElsewhere', { name: target.name, chat: getConversationLabel(result.conversation, t) }));
+          return;
+        case 'notFound':
+          await send(t('forget.notFound', { name: target.name }));
+          return;
+      }
+      for (const erased of result.conversations) {
+        await saveConversationData(erased);
+      }
+      // Their preferences in their personal chat with the bot only hold settings about them, so they go too
+      const personal = await findPersonalChat(target.id, conversationData.tenantId);
+      if (personal) {
+        personal.userPreferences?.delete(target.id);
+        await saveConversationData(personal);
+      }
+      personalChatIds?.delete(getPersonalChatKey(conversationData.tenantId, target.id));
+      const { erasure } = result;
+      await send(t('forget.done', { name: target.name, count: erasure.awards, id: erasure.pseudonymId, erased: ERASED_USER_NAME }));
+    }
+  },
+  {
+    syntax: '/admin [<command>]',
+    description: 'help.admin',
+    scope: 'admin',
+    hidden: true,
+    handler: async ({ send, t }, args) => {
+      const unknown = args.command ? `${t('admin.unknown', { command: args.command })}\n\n` : '';
+      await send(`${unknown}${t('admin.commands')}\n${commands.formatHelp(['admin'], t)}`);
+    }
   }
-  
-  saveConversationData(conversationData);
-};
+);
 
 const createTokenFactory = () => {
   return async (scope: string | string[], tenantId?: string): Promise<string> => {
@@ -291,285 +1619,367 @@ const tokenCredentials: TokenCredentials = {
 
 const credentialOptions = config.MicrosoftAppType === "UserAssignedMsi" ? { ...tokenCredentials } : undefined;
 
-// Create the app (no storage needed for in-memory approach)
+// Create the app (burrito data is persisted separately through conversationStore)
 const app = new App({
   ...credentialOptions
 });
 
+// Only conversations the bot has stored, so unknown IDs don't create empty ones
+const findStoredConversation = async (conversationId: string): Promise<ConversationData | undefined> => {
+  const conversationIds = await conversationStore.keys();
+  return conversationIds.includes(conversationId) ? getConversationData(conversationId) : undefined;
+};
+
+// Dashboard users sign in with Teams single sign-on. Their tokens are checked with the validator the SDK uses for
+// its own tab functions, which needs the bot's client ID.
+const validateUserToken = async (token: string): Promise<ReportingUser | undefined> => {
+  const payload = await app.entraTokenValidator?.validateAccessToken(token);
+  const tenantId = payload?.tid;
+  const aadObjectId = payload?.oid;
+  return typeof tenantId === 'string' && typeof aadObjectId === 'string' ? { tenantId, aadObjectId } : undefined;
+};
+
+// Read-only reporting API and the dashboard tab that charts it, served next to the bot's /api/messages endpoint
+registerReportingApi(app.http, {
+  token: config.BurritoApiToken,
+  validateUserToken: app.entraTokenValidator ? validateUserToken : undefined,
+  listConversations: getAllConversationData,
+  getConversation: findStoredConversation
+});
+
+// Signs the /admin export download links. A new key on every start means links don't outlive a restart.
+const exportKey = randomBytes(32);
+registerExportDownloads(app.http, { key: exportKey, getConversation: findStoredConversation });
+
+app.tab('dashboard', path.join(__dirname, 'dashboard'));
+
+// Imports the file attached to an "/admin import" message into a conversation, or sends the instructions when
+// there is none. Returns whether the ledger was changed, so the caller knows to save it.
+const importIntoConversation = async (conversationData: ConversationData, activity: IMessageActivity, send: Function, t: Translator, instructions: string): Promise<boolean> => {
+  const attachment = findImportAttachment(activity.attachments);
+  if (!attachment) {
+    await send(instructions);
+    return false;
+  }
+  let importResult;
+  try {
+    importResult = importAwards(conversationData, await readImportAttachment(attachment));
+  } catch (error) {
+    console.error('Failed to import burrito history:', error);
+    const message = error instanceof Error ? error.message : String(error);
+    await send(t('import.unreadable', { file: attachment.name || t('import.theAttachment'), error: message }));
+    return false;
+  }
+  const rejectedLines = importResult.rejected
+    .slice(0, 10)
+    .map(rejection => t('import.rejectedRow', { row: rejection.row, reason: rejection.reason }))
+    .join('\n');
+  const moreRejected = importResult.rejected.length > 10 ? `\n• ${t('common.more', { count: importResult.rejected.length - 10 })}` : '';
+  const finished = t('import.finished', { imported: importResult.imported, skipped: importResult.skipped, rejected: importResult.rejected.length });
+  await send(`${finished}${rejectedLines ? `\n\n${rejectedLines}${moreRejected}` : ''}`);
+  return importResult.imported > 0;
+};
+
+// Runs a matched command, checking that admin commands come from an admin
+const runCommand = async (context: CommandContext, match: CommandMatch): Promise<void> => {
+  const { conversationData, send, userId, t } = context;
+  if (match.command.scope === 'admin') {
+    if (!isAdmin(userId, conversationData)) {
+      const tip = t(conversationData.admins.length === 0 ? 'admin.tipMakeAdmin' : 'admin.tipAskAdmin');
+      await send(t('admin.notAdmin', { tip }));
+      return;
+    }
+    await match.command.handler(context, match.args);
+    await saveConversationData(conversationData);
+    return;
+  }
+  await match.command.handler(context, match.args);
+};
+
+// Asks the intent model for the command a free-form message means. If the model can't be reached, the
+// message is treated as not understood.
+const interpretIntent = async (text: string): Promise<string | undefined> => {
+  try {
+    return await interpretMessage(intentModel!, intentInstructions, text);
+  } catch (error) {
+    console.error('Intent model failed:', error);
+    return undefined;
+  }
+};
+
+// What the activity handlers use of the context that app.on routes receive. The handlers are exported so that tests
+// can call them with their own.
+export interface ActivityHandlerContext<TActivity> {
+  activity: TActivity;
+  send: Function;
+  api: Client;
+}
+
+type InvokeActivityNamed<TName extends InvokeActivity['name']> = Extract<InvokeActivity, { name: TName }>;
+type InvokeResult<TName extends InvokeActivity['name']> = Promise<InvokeResponse<TName>['body']>;
+
 // Handle incoming messages
-app.on('message', async ({ send, activity }) => {
+export const handleMessage = async ({ send, activity, api }: ActivityHandlerContext<IMessageActivity>) => {
   try {
-    const userMessage = activity.text?.toLowerCase() || '';
     const conversationId = activity.conversation.id;
     const userId = activity.from.id;
     const userName = activity.from.name || 'Unknown User';
     // Better group chat detection - check for multiple ways Teams indicates group chats
-    const isGroupChat = activity.conversation.isGroup || 
+    const isGroupChat = activity.conversation.isGroup ||
                        activity.conversation.conversationType === 'groupChat' ||
                        activity.conversation.conversationType === 'channel';
     
     // Get conversation data
     const conversationData = await getConversationData(conversationId);
+    // So that a 🌯 reaction to this message can be credited to its author
+    rememberMessageAuthor(conversationData, activity.id, { id: userId, name: userName });
+    if (updateConversationDetails(conversationData, activity)) {
+      await saveConversationData(conversationData);
+    } else {
+      unsavedAuthorChanges.add(conversationId);
+    }
+    const t = getTranslator(conversationData, activity.locale);
+    const mentionsBot = isBotMentioned(activity);
     
-
-    
-    // Debug logging
-    console.log(`Message from ${userName} (${userId}) in ${isGroupChat ? 'group' : 'personal'} chat: "${activity.text}"`);
+    // Debug logging. The bot receives every message in group chats and channels, so it only logs the text of the
+    // ones meant for it.
+    const loggedText = !isGroupChat || mentionsBot ? `: "${activity.text}"` : '';
+    console.log(`Message from ${userName} (${userId}) in ${isGroupChat ? 'group' : 'personal'} chat${loggedText}`);
     console.log(`Conversation type: ${activity.conversation.conversationType}, isGroup: ${activity.conversation.isGroup}`);
     
-    // Special command to simulate group chat for testing
-    if (userMessage === '/testgroupchat' || userMessage === '/simulategroup') {
-      // Temporarily override group chat detection for testing
-      const fakeGroupChat = true;
-      await send(`🧪 **Group Chat Simulation Mode Activated!**\n\n🌯 Now testing group chat features:\n• Try: "give John a burrito"\n• Try: "give @someone a burrito" \n• Try: "burrito leaderboard"\n• Try: "Great work Alice! 🌯🌯🌯"\n\n💡 In real Teams, this would work in actual group chats automatically.`);
-      return;
-    }
-
-    // Special command to make yourself admin (for setup)
-    if (userMessage === '/makeadmin' || userMessage === '/makemeadmin') {
-      if (!conversationData.admins.includes(userId)) {
-        conversationData.admins.push(userId);
-        await saveConversationData(conversationData);
-        await send(`👑 Success! You (${userName}) are now an admin!\n🆔 Your User ID: ${userId}\n🔧 You can now use all admin commands.`);
-      } else {
-        await send(`👑 You (${userName}) are already an admin!\n🆔 Your User ID: ${userId}`);
-      }
-      return;
-    }
+    const context: CommandContext = {
+      send,
+      activity,
+      api,
+      conversationData,
+      userId,
+      userName,
+      isGroupChat: Boolean(isGroupChat),
+      mentionsBot,
+      text: getCommandText(activity),
+      burritoEmojiCount: ((activity.text || '').match(/🌯/g) || []).length,
+      t
+    };
     
-    // Debug command to show user info
-    if (userMessage === '/debug' || userMessage === '/info') {
-      const debugInfo = `🔍 **Debug Info:**\n👤 **User:** ${userName}\n🆔 **User ID:** ${userId}\n💬 **Chat Type:** ${isGroupChat ? 'Group Chat' : 'Personal Chat'}\n🗨️ **Conversation ID:** ${conversationId}\n👑 **Admin:** ${isAdmin(userId, conversationData) ? 'Yes' : 'No'}\n📊 **Admins Count:** ${conversationData.admins.length}`;
-      await send(debugInfo);
-      return;
-    }
-
-    // Admin commands (work in both group and personal chat)
-    if (userMessage.startsWith('/admin')) {
-      if (!isAdmin(userId, conversationData)) {
-        await send(`❌ You are not an admin of this burrito tracking system.\n\n💡 **Tip:** Use "/makeadmin" to become an admin, or ask an existing admin to add you.`);
-        return;
-      }
-      await handleAdminCommand(userMessage, conversationData, send);
+    const match = commands.match(context);
+    if (match) {
+      await runCommand(context, match);
       return;
     }
     
-    // Check for burrito awards - support both group chat mentions and personal chat simple names
-    
-    // Method 1: Group chat with @mentions (traditional way)
-    if (isGroupChat) {
-      const burritoAwardRegex = /(give|award|grant)\s+<at>([^<]+)<\/at>\s+(a\s+)?burrito/i;
-      const burritoAwardMatch = userMessage.match(burritoAwardRegex);
-      
-      if (burritoAwardMatch) {
-        const recipientName = burritoAwardMatch[2];
-        // Extract reason if provided
-        const reasonMatch = userMessage.match(/for\s+(.+)$/i);
-        const reason = reasonMatch ? reasonMatch[1] : undefined;
-        
-        // Find recipient ID from mentions
-        const mentions = activity.entities?.filter(e => e.type === 'mention') || [];
-        const recipientMention = mentions.find(m => m.text === `<at>${recipientName}</at>`);
-        
-        if (recipientMention) {
-          const recipientId = recipientMention.mentioned.id;
-          
-          // Prevent self-awarding
-          if (recipientId === userId) {
-            await send('🚫 Nice try, but you can\'t give yourself a burrito!');
-            return;
-          }
-          
-          // Award the burrito
-          const award = awardBurrito(conversationData, recipientId, recipientName, userId, userName, reason);
-          saveConversationData(conversationData);
-          
-          const reasonText = reason ? ` for: ${reason}` : '';
-          await send(`🌯 Burrito awarded! ${recipientName} received a burrito from ${userName}${reasonText}`);
-          
-          // Show recipient's total
-          const recipientStats = conversationData.userStats.get(recipientId);
-          if (recipientStats) {
-            await send(`🏆 ${recipientName} now has ${recipientStats.totalReceived} burrito${recipientStats.totalReceived !== 1 ? 's' : ''}!`);
-          }
-          return;
-        }
-      }
+    // Only answer unknown group chat messages that are addressed to the bot
+    if (isGroupChat && !context.mentionsBot) {
+      return;
     }
     
-    // Method 2: Simple burrito awarding (works in both personal and group chat)
-    // Format: "give John a burrito" or "award burrito to Sarah for great work"
-    const simpleBurritoRegex = /(give|award|grant)\s+([a-zA-Z0-9\s_-]+?)\s+(a\s+)?burrito/i;
-    const simpleBurritoMatch = userMessage.match(simpleBurritoRegex);
-    
-    if (simpleBurritoMatch) {
-      const recipientName = simpleBurritoMatch[2].trim();
-      
-      // Don't process if it looks like it was trying to use @mentions
-      if (recipientName.includes('<at>') || recipientName.includes('@')) {
-        // Skip this, let it fall through to other handlers
-      } else {
-        // Extract reason if provided
-        const reasonMatch = userMessage.match(/for\s+(.+)$/i);
-        const reason = reasonMatch ? reasonMatch[1] : undefined;
-        
-        // Count burrito emojis in the original message to determine how many burritos to award
-        const originalText = activity.text || '';
-        const burritoEmojiCount = (originalText.match(/🌯/g) || []).length;
-        const burritosToAward = Math.max(1, burritoEmojiCount); // At least 1 burrito, more if emojis present
-        
-        // Generate a fake recipient ID for demo purposes (in real app, you'd need user lookup)
-        const recipientId = `demo-user-${recipientName.toLowerCase().replace(/\s+/g, '-')}`;
-        
-        // Prevent self-awarding by name
-        if (recipientName.toLowerCase() === userName.toLowerCase()) {
-          await send('🚫 Nice try, but you can\'t give yourself a burrito!');
-          return;
-        }
-        
-        // Award multiple burritos if emojis were used
-        for (let i = 0; i < burritosToAward; i++) {
-          const award = awardBurrito(conversationData, recipientId, recipientName, userId, userName, reason);
-        }
-        saveConversationData(conversationData);
-        
-        const reasonText = reason ? ` for: ${reason}` : '';
-        const chatType = isGroupChat ? 'group chat' : 'personal chat';
-        const emojiBonus = burritoEmojiCount > 0 ? ` (${burritoEmojiCount} 🌯 emoji${burritoEmojiCount !== 1 ? 's' : ''} = ${burritosToAward} burrito${burritosToAward !== 1 ? 's' : ''}!)` : '';
-
-        await send(`🌯 Burrito${burritosToAward !== 1 ? 's' : ''} awarded in ${chatType}! ${recipientName} received ${burritosToAward} burrito${burritosToAward !== 1 ? 's' : ''} from ${userName}${reasonText}${emojiBonus}`);        // Show recipient's total
-        const recipientStats = conversationData.userStats.get(recipientId);
-        if (recipientStats) {
-          await send(`🏆 ${recipientName} now has ${recipientStats.totalReceived} burrito${recipientStats.totalReceived !== 1 ? 's' : ''}!`);
-        }
-        
+    if (intentModel && context.text) {
+      const commandText = await interpretIntent(context.text);
+      const intentContext = commandText ? { ...context, text: commandText, burritoEmojiCount: (commandText.match(/🌯/g) || []).length } : undefined;
+      const intentMatch = intentContext && commands.match(intentContext);
+      if (intentContext && intentMatch) {
+        await send(t('intent.understood', { command: commandText }));
+        await runCommand(intentContext, intentMatch);
         return;
       }
     }
     
-    // Method 3: Emoji-only burrito awarding
-    // Format: "🌯🌯🌯 for John" or "Great work Sarah! 🌯🌯"
-    const emojiBurritoRegex = /🌯/g;
-    const emojiMatches = (activity.text || '').match(emojiBurritoRegex);
-    
-    if (emojiMatches && emojiMatches.length > 0) {
-      // Look for a name in the message
-      const nameInMessage = userMessage.match(/(?:for|to|@)\s+([a-zA-Z0-9\s_-]+?)(?:\s|$|!|\.|,)/i);
-      const nameAtEnd = userMessage.match(/([a-zA-Z0-9\s_-]+?)\s*🌯/i);
-      const nameAtStart = userMessage.match(/^([a-zA-Z0-9\s_-]+?)\s/i);
-      
-      let recipientName = '';
-      if (nameInMessage) {
-        recipientName = nameInMessage[1].trim();
-      } else if (nameAtEnd) {
-        recipientName = nameAtEnd[1].trim();
-      } else if (nameAtStart && !userMessage.startsWith('give') && !userMessage.startsWith('award') && !userMessage.startsWith('grant')) {
-        recipientName = nameAtStart[1].trim();
-      }
-      
-      // Only proceed if we found a name and it's not a common word
-      const commonWords = ['great', 'good', 'nice', 'awesome', 'amazing', 'excellent', 'well', 'done', 'work', 'job', 'thanks', 'thank', 'you'];
-      if (recipientName && recipientName.length > 1 && !commonWords.includes(recipientName.toLowerCase())) {
-        const burritosToAward = emojiMatches.length;
-        const recipientId = `demo-user-${recipientName.toLowerCase().replace(/\s+/g, '-')}`;
-        
-        // Prevent self-awarding by name
-        if (recipientName.toLowerCase() === userName.toLowerCase()) {
-          await send('🚫 Nice try, but you can\'t give yourself burritos!');
-          return;
-        }
-        
-        // Award multiple burritos based on emoji count
-        for (let i = 0; i < burritosToAward; i++) {
-          const award = awardBurrito(conversationData, recipientId, recipientName, userId, userName, 'emoji award');
-        }
-        saveConversationData(conversationData);
-        
-        const chatType = isGroupChat ? 'group chat' : 'personal chat';
-        await send(`🌯 Emoji burrito award in ${chatType}! ${recipientName} received ${burritosToAward} burrito${burritosToAward !== 1 ? 's' : ''} from ${userName} (${burritosToAward} 🌯 emoji${burritosToAward !== 1 ? 's' : ''}!)`);
-        
-        // Show recipient's total
-        const recipientStats = conversationData.userStats.get(recipientId);
-        if (recipientStats) {
-          await send(`🏆 ${recipientName} now has ${recipientStats.totalReceived} burrito${recipientStats.totalReceived !== 1 ? 's' : ''}!`);
-        }
-        
-        return;
-      }
-    }
+    // Default response
+    const defaultMessage = isGroupChat
+      ? t('fallback.group')
+      : t('fallback.personal', { commands: commands.formatHelp(['all', 'personal'], t) });
     
-    // Check for burrito count requests (works in both group and personal chat)
-    if (userMessage.includes('my burritos') || userMessage.includes('burrito count')) {
-      const userStats = conversationData.userStats.get(userId);
-      if (userStats) {
-        await send(`🌯 ${userName}, you have received ${userStats.totalReceived} burrito${userStats.totalReceived !== 1 ? 's' : ''} and given ${userStats.totalGiven} burrito${userStats.totalGiven !== 1 ? 's' : ''}!`);
-      } else {
-        await send(`🌯 ${userName}, you haven't received any burritos yet! Keep up the good work! 💪`);
-      }
+    await send(defaultMessage);
+  
+  } catch (error) {
+    console.error(error);
+    await send(createTranslator(resolveLocale(activity.locale))('error.generic'));
+  }
+};
+app.on('message', handleMessage);
+
+// A 🌯 reaction awards one burrito to the author of the message, with the same checks as a typed award
+export const handleMessageReaction = async ({ send, activity, api }: ActivityHandlerContext<IMessageReactionActivity>) => {
+  const burritoReactions = (activity.reactionsAdded || []).filter(reaction => isBurritoReaction(`${reaction.type}`));
+  if (burritoReactions.length === 0 || !activity.replyToId) {
+    return;
+  }
+  try {
+    const conversationData = await getConversationData(activity.conversation.id);
+    const author = getMessageAuthor(conversationData, activity.replyToId);
+    if (!author) {
+      console.log(`Ignoring a burrito reaction to message ${activity.replyToId}, whose author the bot hasn't seen`);
       return;
     }
-    
-    // Show leaderboard (works in both group and personal chat)
-    if (userMessage.includes('burrito leaderboard') || userMessage.includes('top burritos')) {
-      await showLeaderboard(conversationData, send);
+    // Each person's 🌯 counts once per message, however often they take it back and add it again
+    if (hasReactedWithBurrito(conversationData, activity.replyToId, activity.from.id)) {
       return;
     }
-    
-    // Help command - works in all contexts
-    if (userMessage.includes('help') || userMessage.includes('what can you do')) {
-      let helpMessage = '';
-      
-      if (isGroupChat) {
-        helpMessage = `🤖 **Burrito Bot Commands:**\n\n**Awarding Burritos:**\n• "give @username a burrito" - Award with @mention\n• "give John a burrito" - Award by name\n• "give Sarah a burrito 🌯🌯🌯" - Multiple burritos with emojis!\n• "Great work Mike! 🌯🌯" - Emoji-only awards\n• "give Sarah a burrito for great work" - Award with reason\n\n**Stats:**\n• "my burritos" - See your burrito count\n• "burrito leaderboard" - See top burrito earners\n\n**Admin Commands:**\n• "/admin report daily/weekly/monthly/yearly" - Get reports\n• "/admin stats @username" - Get user stats\n• "/admin leaderboard" - Show leaderboard\n\n🌯 More emojis = more burritos!`;
-      } else {
-        helpMessage = `🤖 **Burrito Bot - Personal Chat:**\n\n**Awarding Burritos:**\n• "give John a burrito" - Award by name\n• "give Sarah a burrito 🌯🌯🌯" - Multiple burritos with emojis!\n• "Amazing work Alice! 🌯🌯" - Emoji-only awards\n• "give Mike a burrito for excellent work" - Award with reason\n\n**Stats & Info:**\n• "my burritos" - Check your burrito count\n• "burrito leaderboard" - See top burrito earners\n• "/makeadmin" - Become an admin\n• "/debug" - Show debug info\n\n**Admin Commands:**\n• "/admin report daily/weekly/monthly/yearly" - Get reports\n• "/admin stats username" - Get user stats\n• "/admin leaderboard" - Show leaderboard\n\n🌯 More emojis = more burritos!`;
+    const t = getTranslator(conversationData, activity.locale);
+    const awardContext = { conversationData, send, api, activity, messageId: activity.replyToId, userId: activity.from.id, userName: activity.from.name || 'Unknown User', text: '', t };
+    const awardsBefore = conversationData.burritoAwards.length;
+    await giveBurritos(awardContext, [author], 1);
+    // Reactions that were turned down, e.g. over the quota, can be tried again
+    if (conversationData.burritoAwards.length > awardsBefore) {
+      rememberBurritoReaction(conversationData, activity.replyToId, activity.from.id);
+      await saveConversationData(conversationData);
+    }
+  } catch (error) {
+    console.error(error);
+  }
+};
+app.on('messageReaction', handleMessageReaction);
+
+// The most burritos the "Give burrito" dialog offers, and accepts, at once: the daily quota, or 10 without one
+const getDialogMaxCount = (conversationData: ConversationData): number => {
+  const { dailyQuota } = conversationData.settings;
+  return dailyQuota > 0 ? dailyQuota : 10;
+};
+
+// The "Give burrito" message action opens a dialog asking what the burrito is for and how many to give
+export const handleMessageActionOpen = async ({ activity }: ActivityHandlerContext<InvokeActivityNamed<'composeExtension/fetchTask'>>): InvokeResult<'composeExtension/fetchTask'> => {
+  if (activity.value.commandId !== GIVE_BURRITO_COMMAND) {
+    return;
+  }
+  const conversationData = await getConversationData(activity.conversation.id);
+  const t = getTranslator(conversationData, activity.locale);
+  const author = activity.value.messagePayload?.from?.user;
+  return {
+    task: {
+      type: 'continue',
+      value: {
+        title: t('dialog.title'),
+        height: 'small',
+        width: 'small',
+        card: cardAttachment('adaptive', createGiveBurritoDialogCard(author?.displayName || t('dialog.them'), getDialogMaxCount(conversationData), t))
       }
-      
-      // Add admin status info if user is admin
-      if (isAdmin(userId, conversationData)) {
-        helpMessage += `\n\n👑 **You are an admin!** You can use all admin commands.`;
+    }
+  };
+};
+app.on('message.ext.open', handleMessageActionOpen);
+
+// Awards the burritos from the dialog to the message's author. The outcome is posted in the chat like any other award.
+export const handleMessageActionSubmit = async ({ send, activity, api }: ActivityHandlerContext<InvokeActivityNamed<'composeExtension/submitAction'>>): InvokeResult<'composeExtension/submitAction'> => {
+  if (activity.value.commandId !== GIVE_BURRITO_COMMAND) {
+    return;
+  }
+  const conversationData = await getConversationData(activity.conversation.id);
+  const t = getTranslator(conversationData, activity.locale);
+  const author = activity.value.messagePayload?.from?.user;
+  if (!author) {
+    return { task: { type: 'message', value: t('dialog.notAPerson') } };
+  }
+  // Message payloads identify people by their Microsoft Entra object ID, so look them up in the roster
+  await ensureRoster(conversationData, api, activity.recipient.id);
+  const recipient = conversationData.roster?.members.find(member => member.aadObjectId === author.id || member.id === author.id);
+  if (!recipient) {
+    return { task: { type: 'message', value: t('dialog.authorNotFound', { name: author.displayName || t('dialog.theAuthor') }) } };
+  }
+  const data = activity.value.data || {};
+  const reason = typeof data.reason === 'string' && data.reason.trim() ? data.reason.trim() : undefined;
+  // The dialog's maximum is only enforced by the client, so it is checked again here
+  const count = Math.min(getDialogMaxCount(conversationData), Math.max(1, Math.floor(Number(data.count)) || 1));
+  const awardContext = {
+    conversationData,
+    send,
+    api,
+    activity,
+    messageId: activity.value.messagePayload?.id,
+    userId: activity.from.id,
+    userName: activity.from.name || 'Unknown User',
+    text: reason || '',
+    t
+  };
+  await giveBurritos(awardContext, [recipient], count, reason);
+  return {};
+};
+app.on('message.ext.submit', handleMessageActionSubmit);
+
+// Handle the period and view buttons on leaderboard and report cards by replacing the card in place
+export const handleCardAction = async ({ activity, send }: ActivityHandlerContext<InvokeActivityNamed<'adaptiveCard/action'>>): InvokeResult<'adaptiveCard/action'> => {
+  const { verb, data } = activity.value.action;
+  const conversationData = await getConversationData(activity.conversation.id);
+  const t = getTranslator(conversationData, activity.locale);
+  
+  switch (verb) {
+    case LEADERBOARD_VERB: {
+      const view = data?.view === 'givers' ? 'givers' : 'recipients';
+      if (data?.scope === 'org') {
+        const conversations = await getOrgConversationData(conversationData.tenantId);
+        const fallbackText = formatOrgLeaderboard(conversations, t) || t('orgLeaderboard.emptyShort');
+        return {
+          statusCode: 200,
+          type: 'application/vnd.microsoft.card.adaptive',
+          value: createOrgLeaderboardCard(getOrgLeaderboardRows(conversations, view), view, conversations.length, fallbackText, t)
+        };
       }
-      
-      await send(helpMessage);
-      return;
+      const period: LeaderboardPeriod = REPORT_PERIODS.includes(data?.period) ? data.period : 'all';
+      const tag = typeof data?.tag === 'string' ? normalizeTag(data.tag) : undefined;
+      const fallbackText = formatLeaderboard(conversationData, t, tag) || t('leaderboard.emptyShort');
+      return {
+        statusCode: 200,
+        type: 'application/vnd.microsoft.card.adaptive',
+        value: createLeaderboardCard(conversationData, view, period, fallbackText, t, tag)
+      };
     }
-    
-    // Also respond to general "help" without group chat restriction
-    if (userMessage === 'help' || userMessage === 'commands') {
-      const generalHelp = `🌯 **Burrito Bot Help:**\n\n**Basic Commands:**\n• "hello" - Greet the bot\n• "help" - Show this message\n\n**Awarding Burritos:**\n• "give John a burrito" - Award by name (works everywhere!)\n• "give @username a burrito" - Award by mention (group chats)\n• "give Sarah a burrito 🌯🌯🌯" - Multiple burritos with emojis!\n• "Great job Mike! 🌯🌯" - Emoji-only burrito awards\n• "give Sarah a burrito for great work" - Award with reason\n\n**Stats:**\n• "my burritos" - Check your count\n• "burrito leaderboard" - See rankings\n\n**Admin Commands:**\n• "/admin report daily" - Get reports\n• "/admin stats username" - User stats\n\n🤖 **Chat Type:** ${isGroupChat ? 'Group Chat' : 'Personal Chat'}\n👑 **Admin Status:** ${isAdmin(userId, conversationData) ? 'Yes' : 'No'}\n\n💡 **Pro Tip:** More 🌯 emojis = more burritos awarded!`;
-      
-      await send(generalHelp);
-      return;
+    case REPORT_VERB: {
+      if (!isAdmin(activity.from.id, conversationData)) {
+        return { statusCode: 200, type: 'application/vnd.microsoft.activity.message', value: t('report.adminOnly') };
+      }
+      const period: ReportPeriod = REPORT_PERIODS.includes(data?.period) ? data.period : 'weekly';
+      const range = getPeriodRange(period, new Date(), conversationData.settings.timeZone);
+      return {
+        statusCode: 200,
+        type: 'application/vnd.microsoft.card.adaptive',
+        value: createReportCard(conversationData, range, generateReport(conversationData, range, t), t)
+      };
     }
-    
-    // Greeting responses
-    if (userMessage.includes('hello') || userMessage.includes('hi') || userMessage.includes('hey')) {
-      const greeting = isGroupChat 
-        ? '🌯 Hello! I\'m here to help track burritos in your team. Say "help" to see what I can do!'
-        : '🌯 Hello! Add me to a group chat to start tracking burritos for your team!';
-      await send(greeting);
-      return;
+    case REDEMPTION_VERB: {
+      if (!isAdmin(activity.from.id, conversationData)) {
+        return { statusCode: 200, type: 'application/vnd.microsoft.activity.message', value: t('redemption.adminOnly') };
+      }
+      const redemption = typeof data?.redemptionId === 'string' ? findRedemption(conversationData, data.redemptionId) : undefined;
+      if (!redemption) {
+        return { statusCode: 200, type: 'application/vnd.microsoft.activity.message', value: t('redemption.gone') };
+      }
+      const outcome = settleRedemption(redemption, data.decision === 'approved' ? 'approved' : 'denied', activity.from.id, activity.from.name || 'Unknown User', t);
+      await saveConversationData(conversationData);
+      await send(outcome);
+      return {
+        statusCode: 200,
+        type: 'application/vnd.microsoft.card.adaptive',
+        value: createRedemptionCard(redemption, getSpendableBalance(conversationData, redemption.userId), outcome, t)
+      };
     }
-    
-    // Default response
-    const defaultMessage = isGroupChat 
-      ? '🌯 Try saying "help" to see what I can do, or give burritos: "give John a burrito", "give @user a burrito", or "Great work Sarah! 🌯🌯🌯"!'
-      : '🌯 **Personal Chat Commands:**\n• "give John a burrito" - Award burritos by name!\n• "give Alice a burrito 🌯🌯🌯" - Multiple burritos with emojis!\n• "Amazing work Bob! 🌯🌯" - Emoji-only awards\n• "help" - Show all commands\n• "my burritos" - Check your stats\n• "burrito leaderboard" - See rankings\n• "/makeadmin" - Become admin\n\n🎉 **More 🌯 emojis = more burritos!**';
-    
-    await send(defaultMessage);
-    
-  } catch (error) {
-    console.error(error);
-    await send("Sorry, I encountered an error. Please try again!");
+    default:
+      return { statusCode: 200, type: 'application/vnd.microsoft.activity.message', value: t('card.unknownButton') };
   }
-});
+};
+app.on('card.action', handleCardAction);
 
-// Handle when members are added to set up initial admin
-app.on('conversationUpdate', async ({ send, activity }) => {
-  if (activity.membersAdded && activity.membersAdded.length > 0) {
-    const conversationId = activity.conversation.id;
-    const conversationData = await getConversationData(conversationId);
-    
+// Handle membership changes to keep the roster current and set up the initial admin
+export const handleConversationUpdate = async ({ send, activity, api }: ActivityHandlerContext<IConversationUpdateActivity>) => {
+  const membersAdded = activity.membersAdded || [];
+  const membersRemoved = activity.membersRemoved || [];
+  if (membersAdded.length === 0 && membersRemoved.length === 0) {
+    return;
+  }
+  
+  const conversationId = activity.conversation.id;
+  const conversationData = await getConversationData(conversationId);
+  const botId = activity.recipient.id;
+  
+  updateConversationDetails(conversationData, activity);
+  
+  // Refresh the cached roster, or apply the change to it directly if Teams can't be reached
+  try {
+    await refreshRoster(conversationData, api, botId);
+  } catch (error) {
+    console.error(`Failed to refresh members of ${conversationId}:`, error);
+    applyMembershipChanges(conversationData, membersAdded, membersRemoved, botId);
+  }
+  await saveConversationData(conversationData);
+  
+  if (membersAdded.length > 0) {
     // If this is the first time the bot is added and no admins exist
     if (conversationData.admins.length === 0 && activity.conversation.isGroup) {
       // The person who added the bot becomes the first admin
@@ -579,9 +1989,111 @@ app.on('conversationUpdate', async ({ send, activity }) => {
         await saveConversationData(conversationData);
       }
       
-      await send('🌯 **Welcome to Burrito Bot!** 🌯\n\nI\'m here to help track burritos in your team! Here\'s how to get started:\n\n**Award Burritos:**\n• Type: "give @username a burrito"\n• Add a reason: "give @username a burrito for great work!"\n\n**Check Stats:**\n• "my burritos" - See your burrito count\n• "burrito leaderboard" - See top earners\n\n**Admin Features:**\n• `/admin report daily/weekly/monthly/yearly`\n• `/admin stats @username`\n\nStart recognizing great work with burritos! 🎉');
+      const t = getTranslator(conversationData, activity.locale);
+      await send(t('welcome', { commands: commands.formatHelp(['all', 'group'], t) }));
     }
   }
-});
+};
+app.on('conversationUpdate', handleConversationUpdate);
+
+// How often the scheduler looks for digests that are due
+const DIGEST_CHECK_INTERVAL_MS = 60 * 1000;
+
+// Posts the report and leaderboard for every conversation whose digest is due. Schedules are kept
+// with the conversation data, so they carry on after a restart.
+const sendDueDigests = async (now: Date = new Date()): Promise<void> => {
+  for (const conversationId of await conversationStore.keys()) {
+    const conversationData = await getConversationData(conversationId);
+    const { digestSchedule, reference } = conversationData;
+    const timeZone = conversationData.settings.timeZone;
+    if (!digestSchedule || !reference || !isDigestDue(digestSchedule, timeZone, now)) {
+      continue;
+    }
+    
+    // Mark the slot as sent first, so a failing conversation isn't retried every minute
+    digestSchedule.lastSentAt = now;
+    await saveConversationData(conversationData);
+    
+    const post = (activity: ActivityLike) => app.http.send(toActivityParams(activity), reference);
+    try {
+      // Nobody sent anything, so only the conversation's chosen language applies
+      const t = getTranslator(conversationData);
+      const range = getDigestRange(digestSchedule, timeZone, now);
+      const report = generateReport(conversationData, range, t);
+      await sendCard(post, createReportCard(conversationData, range, report, t), report);
+      const leaderboard = formatLeaderboard(conversationData, t);
+      if (leaderboard) {
+        await sendCard(post, createLeaderboardCard(conversationData, 'recipients', 'all', leaderboard, t), leaderboard);
+      }
+    } catch (error) {
+      console.error(`Failed to post the scheduled digest to ${conversationId}:`, error);
+    }
+  }
+};
+
+// Sends everyone who chose daily notifications a summary of the burritos they received since the last one,
+// in their personal chat. Nothing is sent on days without burritos.
+const sendDueNotificationDigests = async (now: Date = new Date()): Promise<void> => {
+  const conversations = await getAllConversationData();
+  for (const personal of conversations) {
+    const { reference, userPreferences } = personal;
+    if (!reference || !userPreferences) {
+      continue;
+    }
+    for (const preferences of userPreferences.values()) {
+      const { digest } = preferences;
+      if (preferences.notifications !== 'daily' || !digest || !isDigestDue(digest, personal.settings.timeZone, now)) {
+        continue;
+      }
+      const since = new Date(digest.lastSentAt || digest.createdAt);
+      digest.lastSentAt = now;
+      await saveConversationData(personal);
+      
+      const received = getReceivedAwards(conversations.filter(conversation => conversation.tenantId === personal.tenantId), preferences.userId, since, now);
+      if (received.length === 0) {
+        continue;
+      }
+      try {
+        const t = getTranslator(personal, preferences.locale);
+        const lines = received.map(group => t(group.reason ? 'notify.digestLineWithReason' : 'notify.digestLine', {
+          burritos: t('burritos', { count: group.count }),
+          giver: group.giverName,
+          chat: getConversationLabel(group.conversation, t),
+          reason: group.reason || ''
+        }));
+        const count = received.reduce((sum, group) => sum + group.count, 0);
+        await app.http.send(toActivityParams(new MessageActivity(t('notify.digest', { count, lines: lines.join('\n') }))), reference);
+      } catch (error) {
+        console.error(`Failed to send the daily notification to ${preferences.userId}:`, error);
+      }
+    }
+  }
+};
+
+// Anonymises awards that have outlived their conversation's retention period
+const applyRetentionPolicies = async (now: Date = new Date()): Promise<void> => {
+  for (const conversationData of await getAllConversationData()) {
+    const anonymised = applyRetention(conversationData, now);
+    if (anonymised > 0) {
+      console.log(`Anonymised ${anonymised} awards in ${conversationData.conversationId} under its retention policy`);
+      await saveConversationData(conversationData);
+    }
+  }
+};
+
+// Saves remembered message authors, checks for due digests and daily notifications, and applies retention policies.
+// Call once the app has started, since proactive sends need the bot's identity.
+export const startDigestScheduler = (): NodeJS.Timeout => {
+  return setInterval(() => {
+    saveRememberedAuthors()
+      .catch(error => console.error('Saving message authors failed:', error))
+      .then(() => sendDueDigests())
+      .catch(error => console.error('Digest scheduler failed:', error))
+      .then(() => sendDueNotificationDigests())
+      .catch(error => console.error('Notification scheduler failed:', error))
+      .then(() => applyRetentionPolicies())
+      .catch(error => console.error('Retention policies failed:', error));
+  }, DIGEST_CHECK_INTERVAL_MS);
+};
 
 export default app;
\ No newline at end of file
@@ -0,0 +1,293 @@
+import {
+  ActionSet,
+  AdaptiveCard,
+  CardElement,
+  ExecuteAction,
+  Fact,
+  FactSet,
+  Image,
+  NumberInput,
+  SubmitAction,
+  Table,
+  TableCell,
+  TableRow,
+  TextBlock,
+  TextInput
+} from "@microsoft/teams.cards";
+import { Translator } from "./i18n";
+import { ANONYMISED_USER_ID, formatRevokedAward, isActiveAward } from "./ledger";
+import { DateRange, getPeriodRange, isInRange, REPORT_PERIODS, ReportPeriod } from "./periods";
+import { formatTag, getTopTags } from "./tags";
+import { ConversationData, Redemption } from "./types";
+
+export type LeaderboardView = 'recipients' | 'givers';
+export type LeaderboardPeriod = ReportPeriod | 'all';
+
+// Action.Execute verbs handled by the app's card.action route
+export const LEADERBOARD_VERB = 'burritoLeaderboard';
+export const REPORT_VERB = 'burritoReport';
+export const REDEMPTION_VERB = 'burritoRedemption';
+
+export interface LeaderboardRow {
+  userId: string;
+  userName: string;
+  received: number;
+  given: number;
+}
+
+const AVATAR_COLORS = ['#C4314B', '#CA5010', '#498205', '#038387', '#0078D4', '#5C2E91', '#8764B8', '#986F0B'];
+
+const formatPeriod = (period: LeaderboardPeriod, t: Translator): string => t(`card.period.${period}` as const);
+
+const rankLabel = (index: number): string => {
+  return index === 0 ? '🥇' : index === 1 ? '🥈' : index === 2 ? '🥉' : `${index + 1}.`;
+};
+
+// Teams doesn't hand bots profile photo URLs, so avatars are drawn as coloured initials
+const createAvatarUrl = (userId: string, userName: string): string => {
+  const initials = userName
+    .split(/\s+/)
+    .filter(word => word.length > 0)
+    .slice(0, 2)
+    .map(word => word.charAt(0).toUpperCase())
+    .join('')
+    .replace(/[<>&"']/g, '') || '?';
+  let hash = 0;
+  for (const char of userId) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  const color = AVATAR_COLORS[hash % AVATAR_COLORS.length];
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="64" height="64"><circle cx="32" cy="32" r="32" fill="${color}"/>`
+    + `<text x="32" y="40" font-family="Segoe UI, sans-serif" font-size="24" fill="#FFFFFF" text-anchor="middle">${initials}</text></svg>`;
+  return `data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')}`;
+};
+
+// Totals per person, either all-time from userStats or counted from the awards within a range or with a tag
+export const getLeaderboardRows = (
+  conversationData: ConversationData,
+  view: LeaderboardView,
+  range?: DateRange,
+  tag?: string
+): LeaderboardRow[] => {
+  const rows = new Map<string, LeaderboardRow>();
+
+  if (!range && !tag) {
+    conversationData.userStats.forEach(stats => {
+      rows.set(stats.userId, { userId: stats.userId, userName: stats.userName, received: stats.totalReceived, given: stats.totalGiven });
+    });
+  } else {
+    const row = (userId: string, userName: string): LeaderboardRow => {
+      const existing = rows.get(userId) || { userId, userName, received: 0, given: 0 };
+      rows.set(userId, existing);
+      return existing;
+    };
+    conversationData.burritoAwards
+      .filter(award => isActiveAward(award) && (!range || isInRange(award.timestamp, range)) && (!tag || award.tags?.includes(tag)))
+      .forEach(award => {
+        row(award.recipientId, award.recipientName).received++;
+        row(award.giverId, award.giverName).given++;
+      });
+  }
+
+  const metric = (row: LeaderboardRow) => view === 'recipients' ? row.received : row.given;
+  return Array.from(rows.values())
+    .filter(row => row.userId !== ANONYMISED_USER_ID && metric(row) > 0)
+    .sort((a, b) => metric(b) - metric(a));
+};
+
+const createRankingTable = (rows: LeaderboardRow[], view: LeaderboardView, t: Translator): Table => {
+  const header = new TableRow().withStyle('accent').withCells(
+    new TableCell(new TextBlock('#', { weight: 'Bolder' })),
+    new TableCell(new TextBlock(t(view === 'recipients' ? 'card.recipient' : 'card.giver'), { weight: 'Bolder' })),
+    new TableCell(new TextBlock(t('card.received'), { weight: 'Bolder' })),
+    new TableCell(new TextBlock(t('card.given'), { weight: 'Bolder' }))
+  );
+
+  const body = rows.map((row, index) => new TableRow().withCells(
+    new TableCell(new TextBlock(rankLabel(index))),
+    new TableCell(
+      new Image(createAvatarUrl(row.userId, row.userName), { style: 'Person', size: 'Small', altText: row.userName }),
+      new TextBlock(row.userName, { wrap: true, weight: index < 3 ? 'Bolder' : 'Default' })
+    ),
+    new TableCell(new TextBlock(`🌯 ${row.received}`, { weight: view === 'recipients' ? 'Bolder' : 'Default' })),
+    new TableCell(new TextBlock(`🤝 ${row.given}`, { weight: view === 'givers' ? 'Bolder' : 'Default' }))
+  ));
+
+  return new Table()
+    .withColumns({ width: 1 }, { width: 4 }, { width: 2 }, { width: 2 })
+    .withFirstRowAsHeaders(true)
+    .withVerticalCellContentAlignment('Center')
+    .withRows(header, ...body);
+};
+
+const createPeriodActions = (
+  verb: string,
+  current: LeaderboardPeriod | undefined,
+  periods: LeaderboardPeriod[],
+  data: Record<string, string>,
+  t: Translator
+): ActionSet => {
+  return new ActionSet(...periods.map(period => new ExecuteAction({ title: formatPeriod(period, t) })
+    .withVerb(verb)
+    .withData({ ...data, period })
+    .withStyle(period === current ? 'positive' : 'default')
+  ));
+};
+
+export const createLeaderboardCard = (
+  conversationData: ConversationData,
+  view: LeaderboardView,
+  period: LeaderboardPeriod,
+  fallbackText: string,
+  t: Translator,
+  tag?: string
+): AdaptiveCard => {
+  const range = period === 'all' ? undefined : getPeriodRange(period, new Date(), conversationData.settings.timeZone);
+  const rows = getLeaderboardRows(conversationData, view, range, tag).slice(0, 10);
+  const title = tag
+    ? t(view === 'recipients' ? 'card.leaderboardForTag' : 'card.giversForTag', { tag: formatTag(tag) })
+    : t(view === 'recipients' ? 'card.leaderboard' : 'card.givers');
+  // Buttons carry the tag along so switching period or view stays on the same value
+  const data = tag ? { view, tag } : { view };
+
+  const body: CardElement[] = [
+    new TextBlock(title, { size: 'Large', weight: 'Bolder' }),
+    new TextBlock(range ? `${formatPeriod(period, t)} (${range.label})` : formatPeriod(period, t), { isSubtle: true, spacing: 'None' })
+  ];
+  body.push(rows.length > 0
+    ? createRankingTable(rows, view, t)
+    : new TextBlock(t('card.emptyPeriod'), { wrap: true }));
+
+  const otherView: LeaderboardView = view === 'recipients' ? 'givers' : 'recipients';
+  body.push(
+    createPeriodActions(LEADERBOARD_VERB, period, ['all', ...REPORT_PERIODS], data, t),
+    new ActionSet(new ExecuteAction({ title: t(otherView === 'givers' ? 'card.showGivers' : 'card.showRecipients') })
+      .withVerb(LEADERBOARD_VERB)
+      .withData({ ...data, view: otherView, period }))
+  );
+
+  return new AdaptiveCard(...body).withVersion('1.5').withFallbackText(fallbackText);
+};
+
+export const createOrgLeaderboardCard = (
+  rows: LeaderboardRow[],
+  view: LeaderboardView,
+  conversationCount: number,
+  fallbackText: string,
+  t: Translator
+): AdaptiveCard => {
+  const title = t(view === 'recipients' ? 'card.orgLeaderboard' : 'card.orgGivers');
+  const otherView: LeaderboardView = view === 'recipients' ? 'givers' : 'recipients';
+
+  const body: CardElement[] = [
+    new TextBlock(title, { size: 'Large', weight: 'Bolder' }),
+    new TextBlock(t('card.orgSubtitle', { count: conversationCount }), { isSubtle: true, spacing: 'None' }),
+    rows.length > 0
+      ? createRankingTable(rows.slice(0, 10), view, t)
+      : new TextBlock(t('orgLeaderboard.emptyShort'), { wrap: true }),
+    new ActionSet(new ExecuteAction({ title: t(otherView === 'givers' ? 'card.showGivers' : 'card.showRecipients') })
+      .withVerb(LEADERBOARD_VERB)
+      .withData({ view: otherView, scope: 'org' }))
+  ];
+
+  return new AdaptiveCard(...body).withVersion('1.5').withFallbackText(fallbackText);
+};
+
+export const createReportCard = (conversationData: ConversationData, range: DateRange, fallbackText: string, t: Translator): AdaptiveCard => {
+  const periodAwards = conversationData.burritoAwards.filter(award => isInRange(award.timestamp, range));
+  const total = periodAwards.filter(isActiveAward).length;
+  const revoked = periodAwards.filter(award => !isActiveAward(award));
+  const topTags = getTopTags(periodAwards.filter(isActiveAward)).slice(0, 5);
+  const title = `📊 ${t(range.period ? `report.title.${range.period}` as const : 'report.title')}`;
+
+  const body: CardElement[] = [
+    new TextBlock(title, { size: 'Large', weight: 'Bolder' }),
+    new FactSet(
+      new Fact(t('card.report.period'), range.label),
+      new Fact(t('card.report.timeZone'), conversationData.settings.timeZone),
+      new Fact(t('card.report.total'), `${total}`),
+      ...(revoked.length > 0 ? [new Fact(t('card.report.revoked'), `${revoked.length}`)] : [])
+    )
+  ];
+
+  if (total === 0) {
+    body.push(new TextBlock(t('card.report.empty'), { wrap: true }));
+  }
+  // Anonymised awards count towards the total but rank nobody, so the rankings can be empty even then
+  const topRecipients = getLeaderboardRows(conversationData, 'recipients', range).slice(0, 5);
+  if (topRecipients.length > 0) {
+    body.push(
+      new TextBlock(t('card.report.topRecipients'), { weight: 'Bolder', spacing: 'Medium' }),
+      createRankingTable(topRecipients, 'recipients', t)
+    );
+  }
+  const topGivers = getLeaderboardRows(conversationData, 'givers', range).slice(0, 5);
+  if (topGivers.length > 0) {
+    body.push(
+      new TextBlock(t('card.report.topGivers'), { weight: 'Bolder', spacing: 'Medium' }),
+      createRankingTable(topGivers, 'givers', t)
+    );
+  }
+
+  if (topTags.length > 0) {
+    body.push(
+      new TextBlock(t('card.report.topValues'), { weight: 'Bolder', spacing: 'Medium' }),
+      new FactSet(...topTags.map(([tag, count]) => new Fact(formatTag(tag), `🌯 ${count}`)))
+    );
+  }
+
+  if (revoked.length > 0) {
+    body.push(
+      new TextBlock(t('card.report.revokedBurritos'), { weight: 'Bolder', spacing: 'Medium' }),
+      ...revoked.slice(0, 10).map(award => new TextBlock(formatRevokedAward(award, conversationData.settings.timeZone, t), { wrap: true, isSubtle: true, spacing: 'Small' }))
+    );
+  }
+
+  body.push(createPeriodActions(REPORT_VERB, range.period, REPORT_PERIODS, {}, t));
+  return new AdaptiveCard(...body).withVersion('1.5').withFallbackText(fallbackText);
+};
+
+// Posted in the chat when someone redeems a reward, so an admin can approve or deny it. Once decided,
+// the card is replaced by one showing the outcome and without the buttons.
+export const createRedemptionCard = (redemption: Redemption, balance: number, fallbackText: string, t: Translator): AdaptiveCard => {
+  const status = redemption.status === 'pending'
+    ? t('card.redemption.pending')
+    : t(redemption.status === 'approved' ? 'card.redemption.approvedBy' : 'card.redemption.deniedBy', { name: redemption.decidedByName || t('common.anAdmin') });
+
+  const body: CardElement[] = [
+    new TextBlock(t('card.redemption.title'), { size: 'Large', weight: 'Bolder' }),
+    new FactSet(
+      new Fact(t('card.redemption.requestedBy'), redemption.userName),
+      new Fact(t('card.redemption.reward'), redemption.rewardName),
+      new Fact(t('card.redemption.cost'), `${redemption.cost}`),
+      new Fact(t('card.redemption.balance'), `${balance}`),
+      new Fact(t('card.redemption.status'), status),
+      new Fact('🆔 ID', redemption.id)
+    )
+  ];
+
+  if (redemption.status === 'pending') {
+    body.push(new ActionSet(
+      new ExecuteAction({ title: t('card.redemption.approve') })
+        .withVerb(REDEMPTION_VERB)
+        .withData({ redemptionId: redemption.id, decision: 'approved' })
+        .withStyle('positive'),
+      new ExecuteAction({ title: t('card.redemption.deny') })
+        .withVerb(REDEMPTION_VERB)
+        .withData({ redemptionId: redemption.id, decision: 'denied' })
+        .withStyle('destructive')
+    ));
+  }
+
+  return new AdaptiveCard(...body).withVersion('1.5').withFallbackText(fallbackText);
+};
+
+// The dialog opened by the "Give burrito" message action. Submitted values arrive as `reason` and `count`.
+export const createGiveBurritoDialogCard = (recipientName: string, maxCount: number, t: Translator): AdaptiveCard => {
+  return new AdaptiveCard(
+    new TextBlock(t('dialog.heading', { name: recipientName }), { size: 'Large', weight: 'Bolder', wrap: true }),
+    new TextInput({ id: 'reason', label: t('dialog.reason'), placeholder: t('dialog.reasonPlaceholder'), maxLength: 200 }),
+    new NumberInput({ id: 'count', label: t('dialog.count'), min: 1, max: maxCount, value: 1 }),
+    new ActionSet(new SubmitAction({ title: t('dialog.submit') }))
+  ).withVersion('1.5');
+};
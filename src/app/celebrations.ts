@@ -0,0 +1,117 @@
+import { Translator } from "./i18n";
+import { isActiveAward } from "./ledger";
+import { getDateKey } from "./periods";
+import { Badge, ConversationData, UserBurritoStats } from "./types";
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+export const DEFAULT_MILESTONES = [10, 50, 100];
+
+export const DEFAULT_STREAK_WEEKS = 4;
+
+export interface Celebration {
+  userId: string;
+  userName: string;
+  badge: Badge;
+  message: string;
+}
+
+const hasBadge = (stats: UserBurritoStats, badgeId: string): boolean => (stats.badges || []).some(badge => badge.id === badgeId);
+
+const addBadge = (stats: UserBurritoStats, id: string, label: string, now: Date): Badge => {
+  const badge = { id, label, achievedAt: now };
+  stats.badges = [...(stats.badges || []), badge];
+  return badge;
+};
+
+// How many weeks in a row, up to and including this one, the user has given at least one burrito
+export const getGivingStreak = (conversationData: ConversationData, userId: string, now: Date = new Date()): number => {
+  const timeZone = conversationData.settings.timeZone;
+  const weeks = new Set(conversationData.burritoAwards
+    .filter(award => award.giverId === userId && isActiveAward(award))
+    .map(award => getDateKey(new Date(award.timestamp), 'weekly', timeZone)));
+  let streak = 0;
+  while (weeks.has(getDateKey(new Date(now.getTime() - streak * WEEK_MS), 'weekly', timeZone))) {
+    streak++;
+  }
+  return streak;
+};
+
+// Badges earned by an award of `count` burritos that has just been recorded. Milestones passed before
+// this award (for example by imported history) are stored quietly, so only new achievements are celebrated.
+export const checkCelebrations = (
+  conversationData: ConversationData,
+  recipientId: string,
+  giverId: string,
+  count: number,
+  t: Translator,
+  now: Date = new Date()
+): Celebration[] => {
+  const { milestones, streakWeeks } = conversationData.settings;
+  const celebrations: Celebration[] = [];
+  const recipient = conversationData.userStats.get(recipientId);
+  const giver = conversationData.userStats.get(giverId);
+
+  if (recipient) {
+    const before = recipient.totalReceived - count;
+    if (before <= 0 && !hasBadge(recipient, 'first-burrito')) {
+      const badge = addBadge(recipient, 'first-burrito', t('badge.first'), now);
+      celebrations.push({
+        userId: recipientId,
+        userName: recipient.userName,
+        badge,
+        message: t('celebration.first', { name: recipient.userName, count })
+      });
+    }
+    milestones.forEach(milestone => {
+      const badgeId = `received-${milestone}`;
+      if (recipient.totalReceived < milestone || hasBadge(recipient, badgeId)) {
+        return;
+      }
+      const badge = addBadge(recipient, badgeId, t('badge.received', { count: milestone }), now);
+      if (before < milestone) {
+        celebrations.push({
+          userId: recipientId,
+          userName: recipient.userName,
+          badge,
+          message: t('celebration.milestone', { name: recipient.userName, count: milestone })
+        });
+      }
+    });
+  }
+
+  if (giver && streakWeeks > 0) {
+    const badgeId = `streak-${streakWeeks}`;
+    if (!hasBadge(giver, badgeId) && getGivingStreak(conversationData, giverId, now) >= streakWeeks) {
+      const badge = addBadge(giver, badgeId, t('badge.streak', { count: streakWeeks }), now);
+      celebrations.push({
+        userId: giverId,
+        userName: giver.userName,
+        badge,
+        message: t('celebration.streak', { name: giver.userName, count: streakWeeks })
+      });
+    }
+  }
+
+  return celebrations;
+};
+
+// Badges are stored with the label in the language they were earned in, so known ones are relabelled for the reader
+const getBadgeLabel = (badge: Badge, t: Translator): string => {
+  const [, kind, count] = badge.id.match(/^(received|streak)-(\d+)$/) || [];
+  if (badge.id === 'first-burrito') {
+    return t('badge.first');
+  }
+  return kind ? t(kind === 'received' ? 'badge.received' : 'badge.streak', { count: Number(count) }) : badge.label;
+};
+
+export const formatBadges = (stats: UserBurritoStats, t: Translator): string => (stats.badges || []).map(badge => getBadgeLabel(badge, t)).join(', ');
+
+// Milestones from "/admin milestones 10 50 100": positive whole numbers, sorted and without duplicates
+export const parseMilestones = (text: string): number[] | undefined => {
+  const values = text.split(/[\s,]+/).filter(Boolean).map(Number);
+  if (values.length === 0 || values.some(value => !Number.isInteger(value) || value <= 0)) {
+    return undefined;
+  }
+  return Array.from(new Set(values)).sort((a, b) => a - b);
+};
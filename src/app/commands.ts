@@ -0,0 +1,177 @@
+import { Client, IMessageActivity } from "@microsoft/teams.api";
+import { MessageKey, MessageParams, Translator } from "./i18n";
+import { removeTags } from "./tags";
+import { ConversationData } from "./types";
+
+// Where a command can be used. Admin commands work in any chat, but only for the conversation's admins.
+export type CommandScope = 'all' | 'group' | 'personal' | 'admin';
+
+export type CommandArgs = Record<string, string | undefined>;
+
+export interface CommandContext {
+  send: Function;
+  activity: IMessageActivity;
+  api: Client;
+  conversationData: ConversationData;
+  userId: string;
+  userName: string;
+  isGroupChat: boolean;
+  mentionsBot: boolean; // In group chats, only awards run without an @mention of the bot
+  text: string; // The message without the bot's @mention
+  burritoEmojiCount: number;
+  t: Translator; // Replies in the conversation's language, or the sender's
+}
+
+export interface Command {
+  // Declared syntax, used both to parse messages and in the help text:
+  // words match literally (a|b for alternatives), <name> captures an argument and [...] is optional
+  syntax: string;
+  aliases?: string[]; // Other accepted forms, written the same way
+  description: MessageKey;
+  descriptionParams?: MessageParams;
+  scope: CommandScope;
+  examples?: string[];
+  hidden?: boolean; // Works, but is left out of the help text
+  unaddressed?: boolean; // Also runs for group chat messages that don't @mention the bot, such as awards
+  // For commands whose arguments can't be described by a syntax, such as emoji-only awards
+  parse?: (context: CommandContext) => CommandArgs | undefined;
+  handler: (context: CommandContext, args: CommandArgs) => Promise<void>;
+}
+
+export interface CommandMatch {
+  command: Command;
+  args: CommandArgs;
+}
+
+type SyntaxToken = { type: 'literal'; words: string[] } | { type: 'argument'; name: string } | { type: 'optional'; tokens: SyntaxToken[] };
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+
+const tokenize = (syntax: string): SyntaxToken[] => {
+  const tokens: SyntaxToken[] = [];
+  let rest = syntax.trim();
+  while (rest.length > 0) {
+    if (rest.startsWith('[')) {
+      // Find the matching bracket, allowing optional parts inside optional parts
+      let depth = 0;
+      let end = 0;
+      for (; end < rest.length; end++) {
+        depth += rest[end] === '[' ? 1 : rest[end] === ']' ? -1 : 0;
+        if (depth === 0) {
+          break;
+        }
+      }
+      if (depth !== 0) {
+        throw new Error(`Unbalanced [ in command syntax "${syntax}"`);
+      }
+      tokens.push({ type: 'optional', tokens: tokenize(rest.slice(1, end)) });
+      rest = rest.slice(end + 1).trim();
+      continue;
+    }
+    const word = rest.match(/^\S+/)![0];
+    const argument = word.match(/^<(\w+)>$/);
+    tokens.push(argument ? { type: 'argument', name: argument[1] } : { type: 'literal', words: word.split('|') });
+    rest = rest.slice(word.length).trim();
+  }
+  return tokens;
+};
+
+// Turns a token list into a regular expression body. Each token after the first is separated by whitespace,
+// and optional tokens take their leading whitespace with them.
+const toPattern = (tokens: SyntaxToken[]): string => {
+  return tokens.map((token, index) => {
+    const separator = index === 0 ? '' : '\\s+';
+    switch (token.type) {
+      case 'optional':
+        return index === 0 ? `(?:${toPattern(token.tokens)}\\s+)?` : `(?:\\s+${toPattern(token.tokens)})?`;
+      case 'argument':
+        return `${separator}(?<${token.name}>.+?)`;
+      default:
+        // Words may embed an argument, such as #<tag>, which captures up to the next space
+        const words = token.words.map(word => escapeRegExp(word).replace(/<(\w+)>/g, '(?<$1>\\S+)'));
+        return `${separator}(?:${words.join('|')})`;
+    }
+  }).join('');
+};
+
+export const compileSyntax = (syntax: string): RegExp => new RegExp(`^${toPattern(tokenize(syntax))}$`, 'i');
+
+export class CommandRegistry {
+  private readonly commands: { command: Command; patterns: RegExp[] }[] = [];
+
+  // Commands are tried in the order they are registered, so register specific forms before general ones
+  register(...commands: Command[]): this {
+    commands.forEach(command => {
+      const patterns = [command.syntax, ...(command.aliases || [])].map(compileSyntax);
+      this.commands.push({ command, patterns });
+    });
+    return this;
+  }
+
+  // The first command usable in this chat whose syntax matches the message. Burrito emojis are counted
+  // separately, so "give John a burrito 🌯🌯" matches like "give John a burrito", and trailing punctuation is ignored.
+  // If nothing matches, hashtags are dropped and the message is tried again, so "give John a burrito #teamwork" works.
+  match(context: CommandContext): CommandMatch | undefined {
+    const text = context.text.replace(/🌯/g, ' ').replace(/\s+/g, ' ').trim().replace(/[.!?]+$/, '');
+    const withoutTags = removeTags(text).replace(/[.!?]+$/, '');
+    return this.matchText(context, text) || (withoutTags !== text ? this.matchText(context, withoutTags) : undefined);
+  }
+
+  private matchText(context: CommandContext, text: string): CommandMatch | undefined {
+    for (const { command, patterns } of this.commands) {
+      if (command.scope === 'group' && !context.isGroupChat) {
+        continue;
+      }
+      if (command.scope === 'personal' && context.isGroupChat) {
+        continue;
+      }
+      if (context.isGroupChat && !context.mentionsBot && !command.unaddressed) {
+        continue;
+      }
+      if (command.parse) {
+        const args = command.parse(context);
+        if (args) {
+          return { command, args };
+        }
+        continue;
+      }
+      for (const pattern of patterns) {
+        const match = text.match(pattern);
+        if (match) {
+          return { command, args: { ...match.groups } };
+        }
+      }
+    }
+    return undefined;
+  }
+
+  // Help lines for the commands in the given scopes, generated from their declared syntax. Commands are
+  // typed the same way in every language, so only the descriptions are translated.
+  formatHelp(scopes: CommandScope[], t: Translator): string {
+    return this.commands
+      .map(({ command }) => command)
+      .filter(command => !command.hidden && scopes.includes(command.scope))
+      .map(command => {
+        const examples = command.examples?.length ? `\n   ${t('help.examples', { examples: command.examples.map(example => `"${example}"`).join(', ') })}` : '';
+        return `• \`${command.syntax}\` - ${t(command.description, command.descriptionParams)}${examples}`;
+      })
+      .join('\n');
+  }
+}
+
+// Whether the message is addressed to the bot. It sees every message in chats it has been given access to.
+export const isBotMentioned = (activity: IMessageActivity): boolean => {
+  return (activity.entities || []).some(entity => entity.type === 'mention' && entity.mentioned.id === activity.recipient.id);
+};
+
+// Strips the bot's own @mention (needed to address it in channels) and normalises whitespace
+
+export const getCommandText = (activity: IMessageActivity): string => {
+  let text = activity.text || '';
+  (activity.entities || []).forEach(entity => {
+    if (entity.type === 'mention' && entity.mentioned.id === activity.recipient.id && entity.text) {
+      text = text.split(entity.text).join(' ');
+    }
+  });
+  return text.replace(/\s+/g, ' ').trim();
+};
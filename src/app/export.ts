@@ -0,0 +1,178 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { HttpPlugin } from "@microsoft/teams.apps";
+import { DateRange, isInRange } from "./periods";
+import { BurritoAward, ConversationData } from "./types";
+
+export type ExportFormat = 'csv' | 'json';
+
+// Column order is part of the export format, so HR spreadsheets keep working across releases
+export const EXPORT_COLUMNS: (keyof BurritoAward)[] = [
+  'id',
+  'timestamp',
+  'giverId',
+  'giverName',
+  'recipientId',
+  'recipientName',
+  'reason',
+  'conversationId',
+  'revokedAt',
+  'revokedById',
+  'revokedByName',
+  'tags'
+];
+
+const toExportValue = (award: BurritoAward, column: keyof BurritoAward): string => {
+  const value = award[column];
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (Array.isArray(value)) {
+    return value.join(' ');
+  }
+  return value instanceof Date ? value.toISOString() : `${value}`;
+};
+
+// Quotes values per RFC 4180 and defuses text that a spreadsheet would run as a formula
+export const escapeCsvValue = (value: string): string => {
+  let escaped = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  if (/[",\r\n]/.test(escaped) || escaped !== escaped.trim()) {
+    escaped = `"${escaped.replace(/"/g, '""')}"`;
+  }
+  return escaped;
+};
+
+export const formatAwardsAsCsv = (awards: BurritoAward[]): string => {
+  const lines = [EXPORT_COLUMNS.join(',')];
+  awards.forEach(award => {
+    lines.push(EXPORT_COLUMNS.map(column => escapeCsvValue(toExportValue(award, column))).join(','));
+  });
+  return lines.join('\r\n') + '\r\n';
+};
+
+// One award as the JSON export writes it, also used by the reporting API
+export const toExportRow = (award: BurritoAward): Record<string, string | null> => {
+  const row: Record<string, string | null> = {};
+  EXPORT_COLUMNS.forEach(column => {
+    row[column] = award[column] === undefined ? null : toExportValue(award, column);
+  });
+  return row;
+};
+
+export const formatAwardsAsJson = (awards: BurritoAward[]): string => {
+  return JSON.stringify(awards.map(toExportRow), null, 2);
+};
+
+export const formatAwards = (awards: BurritoAward[], format: ExportFormat): string => {
+  return format === 'csv' ? formatAwardsAsCsv(awards) : formatAwardsAsJson(awards);
+};
+
+export interface ExportFile {
+  contentType: string;
+  name: string;
+  content: string;
+}
+
+export const createExportFile = (awards: BurritoAward[], format: ExportFormat, label: string): ExportFile => {
+  // Excel only detects UTF-8 in CSV files (names with accents) when there is a byte order mark
+  const content = format === 'csv' ? `\uFEFF${formatAwards(awards, format)}` : formatAwards(awards, format);
+  return {
+    contentType: format === 'csv' ? 'text/csv' : 'application/json',
+    name: `burritos-${label.replace(/[^a-zA-Z0-9._-]+/g, '_')}.${format}`,
+    content
+  };
+};
+
+// How long a download link from /admin export keeps working
+export const EXPORT_LINK_TTL_MS = 60 * 60 * 1000;
+
+// What a download link exports. It is signed into the link, so the link can't be changed to fetch anything else.
+export interface ExportRequest {
+  conversationId: string;
+  format: ExportFormat;
+  range?: DateRange;
+  expiresAt: number;
+}
+
+const signExportRequest = (request: ExportRequest, key: Buffer): string => {
+  const fields = [
+    request.conversationId,
+    request.format,
+    request.range?.start.getTime() ?? '',
+    request.range?.end.getTime() ?? '',
+    request.range?.label ?? '',
+    request.expiresAt
+  ];
+  return createHmac('sha256', key).update(fields.join('\n')).digest('base64url');
+};
+
+// A link to the bot's web server that downloads the export. Teams doesn't deliver file attachments that carry their
+// contents to group chats and channels, but links open in the browser from any chat.
+export const createExportLink = (baseUrl: string, request: ExportRequest, key: Buffer): string => {
+  const query = new URLSearchParams({ format: request.format, expires: `${request.expiresAt}` });
+  if (request.range) {
+    query.set('from', `${request.range.start.getTime()}`);
+    query.set('to', `${request.range.end.getTime()}`);
+    query.set('label', request.range.label);
+  }
+  query.set('signature', signExportRequest(request, key));
+  return `${baseUrl.replace(/\/+$/, '')}/api/exports/${encodeURIComponent(request.conversationId)}?${query.toString()}`;
+};
+
+const getQueryText = (query: Record<string, unknown>, name: string): string | undefined => {
+  const value = query[name];
+  return typeof value === 'string' ? value : undefined;
+};
+
+// Reads a download link back into the export it was signed for. Returns undefined when the link was changed or has expired.
+export const readExportLink = (conversationId: string, query: Record<string, unknown>, key: Buffer, now: Date = new Date()): ExportRequest | undefined => {
+  const format = getQueryText(query, 'format');
+  const expiresAt = Number(getQueryText(query, 'expires'));
+  const from = getQueryText(query, 'from');
+  const to = getQueryText(query, 'to');
+  const signature = getQueryText(query, 'signature') || '';
+  if ((format !== 'csv' && format !== 'json') || !Number.isFinite(expiresAt) || expiresAt < now.getTime()) {
+    return undefined;
+  }
+  const range = from && to ? { start: new Date(Number(from)), end: new Date(Number(to)), label: getQueryText(query, 'label') || '' } : undefined;
+  const request: ExportRequest = { conversationId, format, range, expiresAt };
+  const expected = Buffer.from(signExportRequest(request, key));
+  const supplied = Buffer.from(signature);
+  return supplied.length === expected.length && timingSafeEqual(supplied, expected) ? request : undefined;
+};
+
+export const getExportedAwards = (awards: BurritoAward[], range?: DateRange): BurritoAward[] => {
+  return awards
+    .filter(award => !range || isInRange(award.timestamp, range))
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+};
+
+export interface ExportDownloadOptions {
+  key: Buffer;
+  getConversation: (conversationId: string) => Promise<ConversationData | undefined>;
+}
+
+// Serves the links from createExportLink:
+//   GET /api/exports/:id?format=&from=&to=&label=&expires=&signature=
+export const registerExportDownloads = (http: HttpPlugin, options: ExportDownloadOptions): void => {
+  http.get('/api/exports/:id', async (request, response) => {
+    const exportRequest = readExportLink(request.params.id, request.query, options.key);
+    if (!exportRequest) {
+      response.status(403).json({ error: 'This download link is invalid or has expired. Run /admin export again for a new one.' });
+      return;
+    }
+    try {
+      const conversationData = await options.getConversation(exportRequest.conversationId);
+      if (!conversationData) {
+        response.status(404).json({ error: 'The conversation no longer exists.' });
+        return;
+      }
+      const awards = getExportedAwards(conversationData.burritoAwards, exportRequest.range);
+      const file = createExportFile(awards, exportRequest.format, exportRequest.range?.label || 'all');
+      response.attachment(file.name);
+      response.type(`${file.contentType}; charset=utf-8`).send(file.content);
+    } catch (error) {
+      console.error(error);
+      response.status(500).json({ error: 'Something went wrong.' });
+    }
+  });
+};
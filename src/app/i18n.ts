@@ -0,0 +1,62 @@
+import de from "./locales/de.json";
+import en from "./locales/en.json";
+import et from "./locales/et.json";
+
+// A message is either plain text or, when it depends on a `count` parameter, one text per plural
+// category of the language ("one", "other", ...). Placeholders such as {name} are filled from the params.
+type Message = string | Partial<Record<Intl.LDMLPluralRule, string>>;
+
+export type MessageKey = keyof typeof en;
+
+export type MessageParams = Record<string, string | number>;
+
+export const SUPPORTED_LOCALES = ['en', 'de', 'et'] as const;
+
+export type Locale = typeof SUPPORTED_LOCALES[number];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+// English is complete by definition, so other locales fall back to it for any message they lack
+const FALLBACK_MESSAGES: Record<MessageKey, Message> = en;
+
+const MESSAGES: Record<Locale, Partial<Record<MessageKey, Message>>> = { en, de, et };
+
+export interface Translator {
+  (key: MessageKey, params?: MessageParams): string;
+  locale: Locale;
+}
+
+// The supported locale for a language tag such as "de-DE" or "et", or undefined if there isn't one
+export const findLocale = (tag: string | undefined): Locale | undefined => {
+  const language = tag?.trim().toLowerCase().split(/[-_]/)[0];
+  return SUPPORTED_LOCALES.find(locale => locale === language);
+};
+
+// The first supported locale among the candidates, in order of preference, e.g. a conversation's
+// chosen language before the sender's Teams language
+export const resolveLocale = (...candidates: (string | undefined)[]): Locale => {
+  for (const candidate of candidates) {
+    const locale = findLocale(candidate);
+    if (locale) {
+      return locale;
+    }
+  }
+  return DEFAULT_LOCALE;
+};
+
+const interpolate = (text: string, params: MessageParams): string => {
+  return text.replace(/\{(\w+)\}/g, (placeholder, name) => name in params ? `${params[name]}` : placeholder);
+};
+
+export const createTranslator = (locale: Locale): Translator => {
+  const pluralRules = new Intl.PluralRules(locale);
+  const translate = (key: MessageKey, params: MessageParams = {}): string => {
+    const message = MESSAGES[locale][key] ?? FALLBACK_MESSAGES[key];
+    if (typeof message === 'string') {
+      return interpolate(message, params);
+    }
+    const text = message[pluralRules.select(Number(params.count))] ?? message.other ?? '';
+    return interpolate(text, params);
+  };
+  return Object.assign(translate, { locale });
+};
@@ -0,0 +1,236 @@
+import { createHash } from "crypto";
+import { Attachment } from "@microsoft/teams.api";
+import { ExportFormat } from "./export";
+import { rebuildUserStats } from "./ledger";
+import { normalizeTag } from "./tags";
+import { BurritoAward, ConversationData } from "./types";
+
+// Uploads larger than this are refused rather than parsed in memory
+export const MAX_IMPORT_BYTES = 5 * 1024 * 1024;
+
+export interface ImportFile {
+  name: string;
+  format: ExportFormat;
+  content: string;
+}
+
+export interface ImportResult {
+  imported: number;
+  skipped: number; // Already in the ledger, or repeated within the file
+  rejected: { row: number; reason: string }[];
+}
+
+// Splits CSV text into rows of fields, following RFC 4180 quoting
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(value => value.trim().length > 0));
+};
+
+// Undoes the formula guard that the CSV export puts in front of values like "=SUM(...)"
+const unescapeCsvValue = (value: string): string => {
+  return /^'[=+\-@\t\r]/.test(value) ? value.slice(1) : value;
+};
+
+// Rows from a JSON file can be anything, so they are checked one by one in toAward
+const parseRows = (file: ImportFile): unknown[] => {
+  const content = file.content.replace(/^\uFEFF/, '');
+  if (file.format === 'json') {
+    const parsed: unknown = JSON.parse(content);
+    const rows = Array.isArray(parsed) ? parsed : typeof parsed === 'object' && parsed !== null && 'awards' in parsed ? parsed.awards : undefined;
+    if (!Array.isArray(rows)) {
+      throw new Error('JSON imports must be an array of awards, or an object with an "awards" array');
+    }
+    return rows;
+  }
+
+  const [header, ...lines] = parseCsv(content);
+  if (!header) {
+    return [];
+  }
+  const columns = header.map(column => column.trim());
+  return lines.map(line => {
+    const row: Record<string, string> = {};
+    columns.forEach((column, index) => {
+      row[column] = unescapeCsvValue(line[index] ?? '');
+    });
+    return row;
+  });
+};
+
+const text = (value: unknown): string => (value === undefined || value === null ? '' : `${value}`.trim());
+
+// Checks one imported row and turns it into an award for this conversation
+const toAward = (value: unknown, conversationId: string): BurritoAward | string => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return 'not an object';
+  }
+  const row = value as Record<string, unknown>;
+  for (const field of ['giverId', 'giverName', 'recipientId', 'recipientName', 'timestamp']) {
+    if (!text(row[field])) {
+      return `missing ${field}`;
+    }
+  }
+  const timestamp = new Date(text(row.timestamp));
+  if (isNaN(timestamp.getTime())) {
+    return `invalid timestamp "${text(row.timestamp)}"`;
+  }
+  if (timestamp.getTime() > Date.now()) {
+    return 'timestamp is in the future';
+  }
+  if (text(row.giverId) === text(row.recipientId)) {
+    return 'giver and recipient are the same person';
+  }
+  // Tags may be a JSON array or a space-separated list, with or without the #
+  const rawTags: string[] = Array.isArray(row.tags) ? row.tags.map(text) : text(row.tags).split(/[\s,]+/);
+  const tags = Array.from(new Set(rawTags.map(normalizeTag).filter(tag => tag.length > 0)));
+  const revokedAt = text(row.revokedAt) ? new Date(text(row.revokedAt)) : undefined;
+  if (revokedAt && isNaN(revokedAt.getTime())) {
+    return `invalid revokedAt "${text(row.revokedAt)}"`;
+  }
+
+  // Rows without an ID get one derived from their contents, so importing the same file twice is harmless
+  const id = text(row.id) || `import-${createHash('sha1')
+    .update([row.giverId, row.recipientId, timestamp.toISOString(), row.reason].map(text).join('|'))
+    .digest('hex')
+    .slice(0, 16)}`;
+
+  return {
+    id,
+    recipientId: text(row.recipientId),
+    recipientName: text(row.recipientName),
+    giverId: text(row.giverId),
+    giverName: text(row.giverName),
+    conversationId,
+    timestamp,
+    reason: text(row.reason) || undefined,
+    ...(tags.length > 0 && { tags }),
+    ...(revokedAt && {
+      revokedAt,
+      revokedById: text(row.revokedById) || undefined,
+      revokedByName: text(row.revokedByName) || undefined
+    })
+  };
+};
+
+// Adds the valid, new rows of an import file to the ledger and rebuilds userStats from it
+export const importAwards = (conversationData: ConversationData, file: ImportFile): ImportResult => {
+  const rows = parseRows(file);
+  const knownIds = new Set(conversationData.burritoAwards.map(award => award.id));
+  const result: ImportResult = { imported: 0, skipped: 0, rejected: [] };
+
+  rows.forEach((row, index) => {
+    // Row numbers match what a spreadsheet shows: the CSV header is row 1
+    const rowNumber = file.format === 'csv' ? index + 2 : index + 1;
+    const award = toAward(row, conversationData.conversationId);
+    if (typeof award === 'string') {
+      result.rejected.push({ row: rowNumber, reason: award });
+      return;
+    }
+    if (knownIds.has(award.id)) {
+      result.skipped++;
+      return;
+    }
+    knownIds.add(award.id);
+    conversationData.burritoAwards.push(award);
+    result.imported++;
+  });
+
+  if (result.imported > 0) {
+    conversationData.burritoAwards.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+    rebuildUserStats(conversationData);
+  }
+  return result;
+};
+
+const detectFormat = (name: string, contentType: string, content?: string): ExportFormat | undefined => {
+  const lowerName = name.toLowerCase();
+  if (lowerName.endsWith('.csv') || contentType.includes('csv')) {
+    return 'csv';
+  }
+  if (lowerName.endsWith('.json') || contentType.includes('json')) {
+    return 'json';
+  }
+  if (content !== undefined) {
+    return /^\s*[[{]/.test(content.replace(/^\uFEFF/, '')) ? 'json' : 'csv';
+  }
+  return undefined;
+};
+
+// Downloads an uploaded file. Teams sends personal-chat uploads as file.download.info
+// attachments; other clients (such as the Agents Playground) send a plain contentUrl.
+export const readImportAttachment = async (attachment: Attachment): Promise<ImportFile> => {
+  const name = attachment.name || 'import';
+  let url = attachment.contentUrl;
+  if (attachment.contentType === 'application/vnd.microsoft.teams.file.download.info') {
+    url = attachment.content?.downloadUrl;
+  }
+  if (!url) {
+    throw new Error(`${name} has no downloadable content`);
+  }
+
+  let content: string;
+  if (url.startsWith('data:')) {
+    const [meta, data] = url.slice('data:'.length).split(',', 2);
+    content = meta.endsWith(';base64') ? Buffer.from(data, 'base64').toString('utf8') : decodeURIComponent(data);
+  } else {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`downloading ${name} failed with status ${response.status}`);
+    }
+    if (Number(response.headers.get('content-length') || 0) > MAX_IMPORT_BYTES) {
+      throw new Error(`${name} is larger than ${MAX_IMPORT_BYTES / (1024 * 1024)} MB`);
+    }
+    content = await response.text();
+  }
+  if (Buffer.byteLength(content, 'utf8') > MAX_IMPORT_BYTES) {
+    throw new Error(`${name} is larger than ${MAX_IMPORT_BYTES / (1024 * 1024)} MB`);
+  }
+
+  const fileType = attachment.content?.fileType ? `.${attachment.content.fileType}` : '';
+  const format = detectFormat(name + fileType, attachment.contentType, content);
+  return { name, format: format || 'csv', content };
+};
+
+// The first attachment in a message that looks like an uploaded file rather than a card or inline image
+export const findImportAttachment = (attachments: Attachment[] = []): Attachment | undefined => {
+  return attachments.find(attachment =>
+    attachment.contentType === 'application/vnd.microsoft.teams.file.download.info' ||
+    detectFormat(attachment.name || '', attachment.contentType) !== undefined
+  );
+};
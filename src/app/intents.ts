@@ -0,0 +1,192 @@
+// What a natural-language message asks the bot to do, as classified by a language model.
+// Each intent is turned back into the command a person could have typed, so it goes through the same handlers and checks.
+export type Intent =
+  | { action: 'award'; recipient: string; count: number; reason?: string }
+  | { action: 'undo' }
+  | { action: 'myBurritos' }
+  | { action: 'leaderboard'; tag?: string }
+  | { action: 'report'; range: string }
+  | { action: 'rewards' }
+  | { action: 'redeem'; reward: string }
+  | { action: 'help' }
+  | { action: 'none' };
+
+// The most burritos one request may ask for; the daily quota usually allows far fewer
+export const MAX_INTENT_BURRITOS = 50;
+
+// A language model that answers a message given the system instructions. Implementations return the raw reply,
+// which should be a JSON intent as described in instructions.txt.
+export interface ModelClient {
+  complete(instructions: string, message: string): Promise<string>;
+}
+
+export interface ModelClientOptions {
+  apiKey?: string;
+  model?: string;
+  baseUrl?: string; // For OpenAI-compatible endpoints, such as Azure OpenAI or a local server
+}
+
+// Calls the chat completions API of OpenAI, or of any service that implements it
+export const createOpenAIClient = (options: ModelClientOptions): ModelClient => {
+  if (!options.apiKey) {
+    throw new Error('BURRITO_INTENT_MODEL is "openai" but OPENAI_API_KEY is not set.');
+  }
+  const baseUrl = (options.baseUrl || 'https://api.openai.com/v1').replace(/\/+$/, '');
+  return {
+    complete: async (instructions, message) => {
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${options.apiKey}` },
+        body: JSON.stringify({
+          model: options.model || 'gpt-4o-mini',
+          temperature: 0,
+          response_format: { type: 'json_object' },
+          messages: [
+            { role: 'system', content: instructions },
+            { role: 'user', content: message }
+          ]
+        }),
+        signal: AbortSignal.timeout(15000)
+      });
+      if (!response.ok) {
+        throw new Error(`The language model request failed with ${response.status} ${response.statusText}`);
+      }
+      const body = await response.json() as { choices?: { message?: { content?: string } }[] };
+      return body.choices?.[0]?.message?.content || '';
+    }
+  };
+};
+
+const NUMBER_WORDS: Record<string, number> = { a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10 };
+
+// Understands a few common phrasings without a network connection, for offline development and tests.
+// It answers in the same JSON as a real model, so the rest of the pipeline is exercised too.
+export const createStubClient = (): ModelClient => ({
+  complete: async (_instructions, message) => {
+    const text = message.replace(/🌯/g, ' ').replace(/\s+/g, ' ').trim().replace(/[.!?]+$/, '');
+    const toCount = (word?: string): number => word ? NUMBER_WORDS[word.toLowerCase()] || parseInt(word, 10) || 1 : 1;
+    let intent: Intent = { action: 'none' };
+
+    // "award 2 burritos to Priya for the release", "send Priya three burritos"
+    const awardTo = text.match(/\b(?:give|award|send|grant)\s+(\d+|[a-z]+)?\s*burritos?\s+to\s+(.+?)(?:\s+for\s+(.+))?$/i);
+    const awardDirect = text.match(/\b(?:give|award|send|grant)\s+(.+?)\s+(\d+|[a-z]+)\s+burritos?(?:\s+for\s+(.+))?$/i);
+    const report = text.match(/\bwho (?:gave|has given|gives) (?:the )?most(?: burritos)?(?:\s+(?:in|during))?\s*(.*)$/i);
+    if (awardTo) {
+      intent = { action: 'award', recipient: awardTo[2], count: toCount(awardTo[1]), reason: awardTo[3] };
+    } else if (awardDirect) {
+      intent = { action: 'award', recipient: awardDirect[1], count: toCount(awardDirect[2]), reason: awardDirect[3] };
+    } else if (report) {
+      intent = { action: 'report', range: report[1] || 'this month' };
+    } else if (/\b(?:leaderboard|ranking|who (?:has|got|received) the most)\b/i.test(text)) {
+      intent = { action: 'leaderboard' };
+    } else if (/\bhow many burritos\b.*\b(?:i|me)\b/i.test(text)) {
+      intent = { action: 'myBurritos' };
+    } else if (/\b(?:undo|take (?:it|that|them) back)\b/i.test(text)) {
+      intent = { action: 'undo' };
+    } else if (/\bwhat can you do\b|\bhelp\b/i.test(text)) {
+      intent = { action: 'help' };
+    }
+    return JSON.stringify(intent);
+  }
+});
+
+// Picks the client named by BURRITO_INTENT_MODEL. The fallback is off (undefined) unless one is configured.
+export const createModelClient = (type: string | undefined, options: ModelClientOptions = {}): ModelClient | undefined => {
+  switch ((type || '').toLowerCase()) {
+    case '':
+    case 'off':
+    case 'none':
+      return undefined;
+    case 'openai':
+      return createOpenAIClient(options);
+    case 'stub':
+      return createStubClient();
+    default:
+      throw new Error(`Unknown intent model "${type}". Use "openai" or "stub", or leave it unset.`);
+  }
+};
+
+// Model output is untrusted: keep intent fields to one line of plain text, without emojis that would count as burritos
+const cleanField = (value: unknown): string | undefined => {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  const text = value.replace(/🌯/g, ' ').replace(/\s+/g, ' ').trim();
+  return text || undefined;
+};
+
+// Reads the model's reply. Anything that isn't a well-formed intent is treated as "none".
+export const parseIntent = (output: string): Intent => {
+  let parsed: unknown;
+  try {
+    // Some models wrap JSON in a code fence despite being asked not to
+    parsed = JSON.parse(output.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, ''));
+  } catch {
+    return { action: 'none' };
+  }
+  if (typeof parsed !== 'object' || parsed === null) {
+    return { action: 'none' };
+  }
+  const value = parsed as Record<string, unknown>;
+  const { action } = value;
+  switch (action) {
+    case 'award': {
+      const recipient = cleanField(value.recipient);
+      const count = Number(value.count ?? 1);
+      if (!recipient || !Number.isInteger(count) || count < 1) {
+        return { action: 'none' };
+      }
+      return { action: 'award', recipient, count: Math.min(count, MAX_INTENT_BURRITOS), reason: cleanField(value.reason) };
+    }
+    case 'leaderboard': {
+      const tag = cleanField(value.tag)?.replace(/^#/, '');
+      return { action: 'leaderboard', tag: tag && /^\S+$/.test(tag) ? tag : undefined };
+    }
+    case 'report':
+      // "Who gave the most?" without a period is taken to mean lately
+      return { action: 'report', range: cleanField(value.range) || 'this month' };
+    case 'redeem': {
+      const reward = cleanField(value.reward);
+      return reward ? { action: 'redeem', reward } : { action: 'none' };
+    }
+    case 'undo':
+    case 'myBurritos':
+    case 'rewards':
+    case 'help':
+      return { action };
+    default:
+      return { action: 'none' };
+  }
+};
+
+// The command a person would type for the intent, or undefined when there is nothing to do
+export const formatIntentCommand = (intent: Intent): string | undefined => {
+  switch (intent.action) {
+    case 'award': {
+      // One 🌯 per burrito, as when the command is typed
+      const emojis = intent.count > 1 ? ` ${'🌯'.repeat(intent.count)}` : '';
+      return `give ${intent.recipient} a burrito${emojis}${intent.reason ? ` for ${intent.reason}` : ''}`;
+    }
+    case 'undo':
+      return 'undo';
+    case 'myBurritos':
+      return 'my burritos';
+    case 'leaderboard':
+      return intent.tag ? `burrito leaderboard #${intent.tag}` : 'burrito leaderboard';
+    case 'report':
+      return `/admin report ${intent.range}`;
+    case 'rewards':
+      return 'rewards';
+    case 'redeem':
+      return `redeem ${intent.reward}`;
+    case 'help':
+      return 'help';
+    default:
+      return undefined;
+  }
+};
+
+// Asks the model what the message means and returns the equivalent command, if any
+export const interpretMessage = async (client: ModelClient, instructions: string, message: string): Promise<string | undefined> => {
+  return formatIntentCommand(parseIntent(await client.complete(instructions, message)));
+};
@@ -0,0 +1,92 @@
+import { Translator } from "./i18n";
+import { getDateKey } from "./periods";
+import { BurritoAward, ConversationData, UserBurritoStats } from "./types";
+
+// How long a giver has to undo their last award themselves; after that only an admin can revoke it
+export const UNDO_WINDOW_MINUTES = 5;
+
+export const isActiveAward = (award: BurritoAward): boolean => !award.revokedAt;
+
+// Who gave and received awards older than the conversation's retention period, once their identities are removed
+export const ANONYMISED_USER_ID = 'anonymised';
+export const ANONYMISED_USER_NAME = 'Anonymised';
+
+// Anonymised awards no longer say whose totals they count in, so they can't be revoked
+export const isAnonymisedAward = (award: BurritoAward): boolean => award.giverId === ANONYMISED_USER_ID;
+
+// Recomputes every user's totals from the burritoAwards ledger. Existing stats entries are
+// kept (with their counts reset to what they had on anonymised awards) so anything else stored on them survives the rebuild.
+export const rebuildUserStats = (conversationData: ConversationData): void => {
+  const userStats = new Map<string, UserBurritoStats>();
+  conversationData.userStats.forEach((stats, userId) => {
+    userStats.set(userId, { ...stats, totalReceived: stats.anonymisedReceived || 0, totalGiven: stats.anonymisedGiven || 0 });
+  });
+
+  const statsFor = (userId: string, userName: string, timestamp: Date): UserBurritoStats => {
+    let stats = userStats.get(userId);
+    if (!stats) {
+      stats = { userId, userName, totalReceived: 0, totalGiven: 0, lastUpdated: timestamp };
+      userStats.set(userId, stats);
+    }
+    // Names and dates follow the most recent award
+    if (new Date(timestamp).getTime() >= new Date(stats.lastUpdated).getTime()) {
+      stats.userName = userName;
+      stats.lastUpdated = new Date(timestamp);
+    }
+    return stats;
+  };
+
+  conversationData.burritoAwards.filter(isActiveAward).forEach(award => {
+    if (award.recipientId !== ANONYMISED_USER_ID) {
+      statsFor(award.recipientId, award.recipientName, award.timestamp).totalReceived++;
+    }
+    if (award.giverId !== ANONYMISED_USER_ID) {
+      statsFor(award.giverId, award.giverName, award.timestamp).totalGiven++;
+    }
+  });
+
+  conversationData.userStats = userStats;
+};
+
+// Marks awards as revoked and takes them back out of the giver's and recipient's totals
+export const revokeAwards = (
+  conversationData: ConversationData,
+  awards: BurritoAward[],
+  revokedById: string,
+  revokedByName: string,
+  now: Date = new Date()
+): void => {
+  awards.filter(isActiveAward).forEach(award => {
+    award.revokedAt = now;
+    award.revokedById = revokedById;
+    award.revokedByName = revokedByName;
+
+    const recipientStats = conversationData.userStats.get(award.recipientId);
+    if (recipientStats) {
+      recipientStats.totalReceived = Math.max(0, recipientStats.totalReceived - 1);
+    }
+    const giverStats = conversationData.userStats.get(award.giverId);
+    if (giverStats) {
+      giverStats.totalGiven = Math.max(0, giverStats.totalGiven - 1);
+    }
+  });
+};
+
+// The giver's most recent award, together with any burritos handed out in the same message to anyone,
+// as long as it is still inside the undo window
+export const findUndoableAwards = (conversationData: ConversationData, giverId: string, now: Date = new Date()): BurritoAward[] => {
+  const given = conversationData.burritoAwards.filter(award => award.giverId === giverId && isActiveAward(award));
+  const last = given[given.length - 1];
+  if (!last || now.getTime() - new Date(last.timestamp).getTime() > UNDO_WINDOW_MINUTES * 60 * 1000) {
+    return [];
+  }
+  return given.filter(award => new Date(award.timestamp).getTime() === new Date(last.timestamp).getTime());
+};
+
+// One line of a report's audit trail, e.g. "Ann → Bob (ID 123-abc), revoked by Cat on 2026-10-01"
+export const formatRevokedAward = (award: BurritoAward, timeZone: string, t: Translator): string => {
+  const params = { giver: award.giverName, recipient: award.recipientName, id: award.id, admin: award.revokedByName || t('common.anAdmin') };
+  return award.revokedAt
+    ? t('revoked.awardOn', { ...params, date: getDateKey(new Date(award.revokedAt), 'daily', timeZone) })
+    : t('revoked.award', params);
+};
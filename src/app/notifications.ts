@@ -0,0 +1,98 @@
+import { isActiveAward } from "./ledger";
+import { ConversationData, NotificationMode, UserPreferences } from "./types";
+
+// Daily notifications are sent at this time in the personal chat's time zone
+export const NOTIFICATION_DIGEST_HOUR = 9;
+
+// How "notifications <mode>" can be written
+const MODE_WORDS: Record<string, NotificationMode> = {
+  'off': 'off',
+  'none': 'off',
+  'mute': 'off',
+  'daily': 'daily',
+  'daily digest': 'daily',
+  'digest': 'daily',
+  'instant': 'instant',
+  'on': 'instant'
+};
+
+export const parseNotificationMode = (text: string): NotificationMode | undefined => {
+  return MODE_WORDS[text.trim().toLowerCase().replace(/\s+/g, ' ')];
+};
+
+// People who never chose get a notice as soon as they receive burritos
+export const getNotificationMode = (preferences?: UserPreferences): NotificationMode => preferences?.notifications || 'instant';
+
+// A person's preferences in the conversation, created with the defaults if they have none yet
+export const getUserPreferences = (conversationData: ConversationData, userId: string): UserPreferences => {
+  conversationData.userPreferences ??= new Map<string, UserPreferences>();
+  let preferences = conversationData.userPreferences.get(userId);
+  if (!preferences) {
+    preferences = { userId, notifications: 'instant' };
+    conversationData.userPreferences.set(userId, preferences);
+  }
+  return preferences;
+};
+
+// Daily notifications reuse the digest schedule, so they are sent once a day and never for the time before they were chosen
+export const setNotificationMode = (conversationData: ConversationData, userId: string, mode: NotificationMode, locale?: string, now: Date = new Date()): UserPreferences => {
+  const preferences = getUserPreferences(conversationData, userId);
+  preferences.notifications = mode;
+  preferences.locale = locale || preferences.locale;
+  preferences.digest = mode === 'daily' ? { frequency: 'daily', hour: NOTIFICATION_DIGEST_HOUR, minute: 0, createdAt: now } : undefined;
+  return preferences;
+};
+
+// The person's personal chat with the bot in the tenant, where their preferences are kept and notices are sent.
+// Teams user IDs are only meaningful within a tenant, so chats elsewhere are never picked.
+export const findPersonalConversation = (conversations: ConversationData[], userId: string, tenantId: string | undefined): ConversationData | undefined => {
+  return conversations.find(conversation =>
+    conversation.conversationType === 'personal' && conversation.tenantId === tenantId && conversation.userPreferences?.has(userId)
+  );
+};
+
+// A link that opens a message in Teams. Channel replies live in conversations named "<channel>;messageid=<thread>",
+// which the link splits into the channel and the thread the message belongs to.
+export const getMessageLink = (conversationId: string, messageId: string, tenantId?: string): string => {
+  const [chatId, threadId] = conversationId.split(';messageid=');
+  const query = new URLSearchParams();
+  if (tenantId) {
+    query.set('tenantId', tenantId);
+  }
+  if (threadId) {
+    query.set('parentMessageId', threadId);
+  }
+  const search = query.toString();
+  return `https://teams.microsoft.com/l/message/${encodeURIComponent(chatId)}/${encodeURIComponent(messageId)}${search ? `?${search}` : ''}`;
+};
+
+// One line of a daily notification: the burritos one person gave in one message
+export interface ReceivedAwardGroup {
+  conversation: ConversationData;
+  giverName: string;
+  reason?: string;
+  count: number;
+}
+
+// Burritos someone received in the conversations after `since` and up to `until`, oldest first. Awards given
+// together share a timestamp, so they are grouped back into the message they came from.
+export const getReceivedAwards = (conversations: ConversationData[], userId: string, since: Date, until: Date): ReceivedAwardGroup[] => {
+  const groups = new Map<string, ReceivedAwardGroup & { time: number }>();
+  conversations.forEach(conversation => {
+    conversation.burritoAwards
+      .filter(award => award.recipientId === userId && isActiveAward(award))
+      .forEach(award => {
+        const time = new Date(award.timestamp).getTime();
+        if (time <= since.getTime() || time > until.getTime()) {
+          return;
+        }
+        const key = `${conversation.conversationId}|${award.giverId}|${time}`;
+        const group = groups.get(key) || { conversation, giverName: award.giverName, reason: award.reason, count: 0, time };
+        group.count++;
+        groups.set(key, group);
+      });
+  });
+  return Array.from(groups.values())
+    .sort((a, b) => a.time - b.time)
+    .map(({ time, ...group }) => group);
+};
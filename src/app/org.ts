@@ -0,0 +1,74 @@
+import { LeaderboardRow } from "./cards";
+import { Translator } from "./i18n";
+import { ConversationData } from "./types";
+
+export interface ConversationTotals {
+  conversationId: string;
+  conversationName: string;
+  received: number;
+  given: number;
+}
+
+// Conversations that count towards the org-wide view: same tenant, and not opted out by their admins
+export const getOrgConversations = (conversations: ConversationData[], tenantId: string | undefined): ConversationData[] => {
+  return conversations.filter(conversation =>
+    tenantId !== undefined && conversation.tenantId === tenantId && conversation.settings.includeInOrgStats
+  );
+};
+
+// A readable name for a conversation in the per-channel breakdown
+export const getConversationLabel = (conversationData: ConversationData, t: Translator): string => {
+  if (conversationData.conversationName) {
+    return conversationData.conversationName;
+  }
+  switch (conversationData.conversationType) {
+    case 'personal':
+      return t('chat.personal');
+    case 'channel':
+      return t('chat.channel');
+    default:
+      return t('chat.group');
+  }
+};
+
+// Adds up everyone's all-time totals across the given conversations. Teams user IDs are the same in
+// every conversation the bot is in, so they are used to merge people.
+export const getOrgLeaderboardRows = (conversations: ConversationData[], view: 'recipients' | 'givers'): LeaderboardRow[] => {
+  const rows = new Map<string, LeaderboardRow & { lastUpdated: number }>();
+  conversations.forEach(conversation => {
+    conversation.userStats.forEach(stats => {
+      const lastUpdated = new Date(stats.lastUpdated).getTime();
+      const row = rows.get(stats.userId) || { userId: stats.userId, userName: stats.userName, received: 0, given: 0, lastUpdated };
+      row.received += stats.totalReceived;
+      row.given += stats.totalGiven;
+      // The most recently seen name wins if someone's display name changed
+      if (lastUpdated >= row.lastUpdated) {
+        row.userName = stats.userName;
+        row.lastUpdated = lastUpdated;
+      }
+      rows.set(stats.userId, row);
+    });
+  });
+
+  const metric = (row: LeaderboardRow) => view === 'recipients' ? row.received : row.given;
+  return Array.from(rows.values())
+    .map(({ lastUpdated, ...row }) => row)
+    .filter(row => metric(row) > 0)
+    .sort((a, b) => metric(b) - metric(a));
+};
+
+// One user's totals in each conversation where they have given or received burritos
+export const getUserTotalsByConversation = (conversations: ConversationData[], userId: string, t: Translator): ConversationTotals[] => {
+  return conversations
+    .map(conversation => {
+      const stats = conversation.userStats.get(userId);
+      return {
+        conversationId: conversation.conversationId,
+        conversationName: getConversationLabel(conversation, t),
+        received: stats?.totalReceived || 0,
+        given: stats?.totalGiven || 0
+      };
+    })
+    .filter(totals => totals.received > 0 || totals.given > 0)
+    .sort((a, b) => b.received - a.received || b.given - a.given);
+};
@@ -0,0 +1,236 @@
+export type ReportPeriod = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export const REPORT_PERIODS: ReportPeriod[] = ['daily', 'weekly', 'monthly', 'yearly'];
+
+// A span of time for reports. `end` is exclusive; `period` is set when the range is one whole period.
+export interface DateRange {
+  start: Date;
+  end: Date;
+  label: string;
+  period?: ReportPeriod;
+}
+
+interface CalendarDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const MONTH_NAMES = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+const pad = (value: number): string => `${value}`.padStart(2, '0');
+
+// Returns the canonical name of an IANA time zone, or undefined if it is not recognised
+export const normalizeTimeZone = (timeZone: string): string | undefined => {
+  try {
+    return new Intl.DateTimeFormat('en-US', { timeZone }).resolvedOptions().timeZone;
+  } catch {
+    return undefined;
+  }
+};
+
+// Wall-clock date and time of a moment in the given time zone
+const getZonedParts = (date: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric'
+  }).formatToParts(date);
+  const part = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  return {
+    year: part('year'),
+    month: part('month'),
+    day: part('day'),
+    hour: part('hour'),
+    minute: part('minute'),
+    second: part('second')
+  };
+};
+
+const getCalendarDate = (date: Date, timeZone: string): CalendarDate => {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return { year, month, day };
+};
+
+// The moment a wall-clock time (local midnight by default) occurs on a calendar date in the given time zone
+const startOfDay = ({ year, month, day }: CalendarDate, timeZone: string, hour: number = 0, minute: number = 0): Date => {
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute);
+  const offsetAt = (moment: number) => {
+    const p = getZonedParts(new Date(moment), timeZone);
+    return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - moment;
+  };
+  // Correct once more in case the first guess landed on the other side of a DST change
+  const guess = asUtc - offsetAt(asUtc);
+  return new Date(asUtc - offsetAt(guess));
+};
+
+// Day arithmetic on calendar dates, done in UTC where every day is 24 hours
+const addDays = (date: CalendarDate, days: number): CalendarDate => {
+  const moved = new Date(Date.UTC(date.year, date.month - 1, date.day) + days * DAY_MS);
+  return { year: moved.getUTCFullYear(), month: moved.getUTCMonth() + 1, day: moved.getUTCDate() };
+};
+
+// Monday = 0 ... Sunday = 6
+const getIsoWeekday = (date: CalendarDate): number => {
+  return (new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay() + 6) % 7;
+};
+
+// The moment a wall-clock time occurs on the local day that contains `date`, e.g. 16:00 today in Europe/Tallinn
+export const atLocalTime = (date: Date, hour: number, minute: number, timeZone: string = 'UTC'): Date => {
+  return startOfDay(getCalendarDate(date, timeZone), timeZone, hour, minute);
+};
+
+// Day of the week (Monday = 0 ... Sunday = 6) and day of the month of a moment in the given time zone
+export const getLocalDay = (date: Date, timeZone: string = 'UTC'): { weekday: number; dayOfMonth: number } => {
+  const local = getCalendarDate(date, timeZone);
+  return { weekday: getIsoWeekday(local), dayOfMonth: local.day };
+};
+
+// ISO-8601 week: weeks start on Monday and week 1 is the week containing the year's first Thursday
+const getIsoWeek = (date: CalendarDate): { year: number; week: number } => {
+  const thursday = addDays(date, 3 - getIsoWeekday(date));
+  const firstOfYear = Date.UTC(thursday.year, 0, 1);
+  const dayOfYear = Math.round((Date.UTC(thursday.year, thursday.month - 1, thursday.day) - firstOfYear) / DAY_MS);
+  return { year: thursday.year, week: Math.floor(dayOfYear / 7) + 1 };
+};
+
+// Helper functions for date calculations
+export const getDateKey = (date: Date, period: ReportPeriod, timeZone: string = 'UTC'): string => {
+  const local = getCalendarDate(date, timeZone);
+
+  switch (period) {
+    case 'daily':
+      return `${local.year}-${pad(local.month)}-${pad(local.day)}`;
+    case 'weekly':
+      const { year, week } = getIsoWeek(local);
+      return `${year}-W${pad(week)}`;
+    case 'monthly':
+      return `${local.year}-${pad(local.month)}`;
+    case 'yearly':
+      return `${local.year}`;
+    default:
+      return `${local.year}-${pad(local.month)}-${pad(local.day)}`;
+  }
+};
+
+const formatDay = (date: CalendarDate): string => `${date.year}-${pad(date.month)}-${pad(date.day)}`;
+
+const dayRange = (first: CalendarDate, last: CalendarDate, timeZone: string, label?: string, period?: ReportPeriod): DateRange => ({
+  start: startOfDay(first, timeZone),
+  end: startOfDay(addDays(last, 1), timeZone),
+  label: label || (formatDay(first) === formatDay(last) ? formatDay(first) : `${formatDay(first)}..${formatDay(last)}`),
+  period
+});
+
+const monthRange = (year: number, month: number, timeZone: string): DateRange => {
+  const nextMonth = month === 12 ? { year: year + 1, month: 1, day: 1 } : { year, month: month + 1, day: 1 };
+  return dayRange({ year, month, day: 1 }, addDays(nextMonth, -1), timeZone, `${year}-${pad(month)}`, 'monthly');
+};
+
+const yearRange = (year: number, timeZone: string): DateRange => {
+  return dayRange({ year, month: 1, day: 1 }, { year, month: 12, day: 31 }, timeZone, `${year}`, 'yearly');
+};
+
+// The whole period (day, ISO week, month or year) that contains a moment, in the given time zone
+export const getPeriodRange = (period: ReportPeriod, date: Date = new Date(), timeZone: string = 'UTC'): DateRange => {
+  const local = getCalendarDate(date, timeZone);
+
+  switch (period) {
+    case 'weekly':
+      const monday = addDays(local, -getIsoWeekday(local));
+      return dayRange(monday, addDays(monday, 6), timeZone, getDateKey(date, 'weekly', timeZone), 'weekly');
+    case 'monthly':
+      return monthRange(local.year, local.month, timeZone);
+    case 'yearly':
+      return yearRange(local.year, timeZone);
+    default:
+      return dayRange(local, local, timeZone, undefined, 'daily');
+  }
+};
+
+const parseDay = (text: string): CalendarDate | undefined => {
+  const match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (!match) {
+    return undefined;
+  }
+  const date = { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) };
+  // Reject dates like 2026-02-30 that roll over into the next month
+  return formatDay(addDays(date, 0)) === formatDay(date) ? date : undefined;
+};
+
+// Parses the range part of "/admin report ...": a period name ("weekly"), a relative period
+// ("last week", "this month", "yesterday"), a month ("2026-09", "september 2026"), a year ("2026")
+// or explicit days ("2026-09-01..2026-09-30"). Returns undefined when the text isn't a range.
+export const parseDateRange = (text: string, timeZone: string = 'UTC', now: Date = new Date()): DateRange | undefined => {
+  const input = text.trim().toLowerCase().replace(/\s+/g, ' ');
+  const aliases: Record<string, ReportPeriod> = { day: 'daily', week: 'weekly', month: 'monthly', year: 'yearly' };
+
+  if ((REPORT_PERIODS as string[]).includes(input)) {
+    return getPeriodRange(input as ReportPeriod, now, timeZone);
+  }
+  if (input === 'today') {
+    return getPeriodRange('daily', now, timeZone);
+  }
+  if (input === 'yesterday') {
+    const yesterday = addDays(getCalendarDate(now, timeZone), -1);
+    return dayRange(yesterday, yesterday, timeZone, undefined, 'daily');
+  }
+
+  const relative = input.match(/^(this|last) (day|week|month|year)$/);
+  if (relative) {
+    const period = aliases[relative[2]];
+    const current = getPeriodRange(period, now, timeZone);
+    // Step back from the start of the current period into the previous one
+    return relative[1] === 'this' ? current : getPeriodRange(period, new Date(current.start.getTime() - 1), timeZone);
+  }
+
+  const days = input.match(/^(\d{4}-\d{1,2}-\d{1,2}) ?(?:\.\.|to) ?(\d{4}-\d{1,2}-\d{1,2})$/);
+  if (days) {
+    const first = parseDay(days[1]);
+    const last = parseDay(days[2]);
+    if (!first || !last || formatDay(first) > formatDay(last)) {
+      return undefined;
+    }
+    return dayRange(first, last, timeZone);
+  }
+
+  const singleDay = parseDay(input);
+  if (singleDay) {
+    return dayRange(singleDay, singleDay, timeZone, undefined, 'daily');
+  }
+
+  const numericMonth = input.match(/^(\d{4})-(\d{1,2})$/);
+  if (numericMonth && Number(numericMonth[2]) >= 1 && Number(numericMonth[2]) <= 12) {
+    return monthRange(Number(numericMonth[1]), Number(numericMonth[2]), timeZone);
+  }
+
+  const namedMonth = input.match(/^([a-z]+)(?: (\d{4}))?$/);
+  if (namedMonth) {
+    const monthIndex = MONTH_NAMES.findIndex(name => name === namedMonth[1] || name.slice(0, 3) === namedMonth[1]);
+    if (monthIndex >= 0) {
+      // Without a year, "september" means the most recent September that has started
+      const local = getCalendarDate(now, timeZone);
+      const year = namedMonth[2] ? Number(namedMonth[2]) : (monthIndex + 1 > local.month ? local.year - 1 : local.year);
+      return monthRange(year, monthIndex + 1, timeZone);
+    }
+  }
+
+  const year = input.match(/^(\d{4})$/);
+  if (year) {
+    return yearRange(Number(year[1]), timeZone);
+  }
+
+  return undefined;
+};
+
+export const isInRange = (date: Date, range: DateRange): boolean => {
+  const time = new Date(date).getTime();
+  return time >= range.start.getTime() && time < range.end.getTime();
+};
@@ -0,0 +1,21 @@
+import { isActiveAward } from "./ledger";
+import { getDateKey } from "./periods";
+import { ConversationData } from "./types";
+
+export const getGivenToday = (conversationData: ConversationData, giverId: string, now: Date = new Date()): number => {
+  const timeZone = conversationData.settings.timeZone;
+  const today = getDateKey(now, 'daily', timeZone);
+  // Undone and revoked burritos go back into the giver's allowance
+  return conversationData.burritoAwards.filter(award =>
+    award.giverId === giverId && isActiveAward(award) && getDateKey(new Date(award.timestamp), 'daily', timeZone) === today
+  ).length;
+};
+
+// How many more burritos a giver may hand out today. A quota of 0 means unlimited.
+export const getRemainingQuota = (conversationData: ConversationData, giverId: string, now: Date = new Date()): number => {
+  const quota = conversationData.settings.dailyQuota;
+  if (quota <= 0) {
+    return Infinity;
+  }
+  return Math.max(0, quota - getGivenToday(conversationData, giverId, now));
+};
@@ -0,0 +1,42 @@
+import { ConversationData, RosterMember } from "./types";
+
+// How many recent message authors are remembered per conversation
+const MAX_REMEMBERED_MESSAGES = 500;
+
+// ID of the "Give burrito" message action declared in appPackage/manifest.json
+export const GIVE_BURRITO_COMMAND = 'giveBurrito';
+
+// Reaction events only carry the ID of the message that was reacted to, so the bot remembers who wrote the messages
+// it has seen. They are kept with the conversation's data, so reactions still count after a restart.
+export const rememberMessageAuthor = (conversationData: ConversationData, messageId: string, author: RosterMember): void => {
+  conversationData.messageAuthors ??= new Map<string, RosterMember>();
+  const authors = conversationData.messageAuthors;
+  authors.delete(messageId);
+  authors.set(messageId, { id: author.id, name: author.name });
+  // Maps iterate in insertion order, so the first key is the oldest message
+  if (authors.size > MAX_REMEMBERED_MESSAGES) {
+    authors.delete(authors.keys().next().value!);
+  }
+};
+
+export const getMessageAuthor = (conversationData: ConversationData, messageId: string): RosterMember | undefined => {
+  return conversationData.messageAuthors?.get(messageId);
+};
+
+// Who already gave a burrito by reacting to a message, so taking the 🌯 back and adding it again doesn't award another
+export const hasReactedWithBurrito = (conversationData: ConversationData, messageId: string, reactorId: string): boolean => {
+  return conversationData.burritoReactions?.get(messageId)?.includes(reactorId) || false;
+};
+
+export const rememberBurritoReaction = (conversationData: ConversationData, messageId: string, reactorId: string): void => {
+  conversationData.burritoReactions ??= new Map<string, string[]>();
+  const reactions = conversationData.burritoReactions;
+  reactions.set(messageId, [...(reactions.get(messageId) || []), reactorId]);
+  // Like authors, only the most recent messages are kept
+  if (reactions.size > MAX_REMEMBERED_MESSAGES) {
+    reactions.delete(reactions.keys().next().value!);
+  }
+};
+
+// Teams reports emoji reactions beyond the classic six by code point and name, e.g. "1f32f_burrito"
+export const isBurritoReaction = (type: string): boolean => type === '🌯' || /^1f32f(_|$)/i.test(type) || type.toLowerCase() === 'burrito';
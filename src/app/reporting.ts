@@ -0,0 +1,276 @@
+import { createHash, timingSafeEqual } from "crypto";
+import { HttpPlugin } from "@microsoft/teams.apps";
+import { getLeaderboardRows, LeaderboardRow, LeaderboardView } from "./cards";
+import { toExportRow } from "./export";
+import { isActiveAward } from "./ledger";
+import { DateRange, getDateKey, isInRange, parseDateRange, ReportPeriod } from "./periods";
+import { getSpendableBalance } from "./rewards";
+import { getTopTags, normalizeTag } from "./tags";
+import { BurritoAward, ConversationData } from "./types";
+
+// How many people the top givers and receivers lists include
+const TOP_COUNT = 10;
+// Awards listed on a user's page, newest first
+const RECENT_AWARDS = 20;
+
+// The most buckets a trend has, ten years of months. Longer spans chart their last ten years.
+const MAX_TREND_POINTS = 120;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Roughly how long each kind of bucket is, to know where a trend of MAX_TREND_POINTS buckets starts
+const BUCKET_DAYS = { daily: 1, weekly: 7, monthly: 365.25 / 12 };
+
+// Someone signed in to the dashboard tab with Teams single sign-on
+export interface ReportingUser {
+  tenantId: string;
+  aadObjectId: string;
+}
+
+export interface ReportingApiOptions {
+  // For server-side integrations, sent as "Authorization: Bearer <token>". It reads every conversation, so it must
+  // never reach a browser.
+  token?: string;
+  // Checks the Teams SSO token the dashboard sends, returning who it belongs to, or undefined when it isn't valid
+  validateUserToken?: (token: string) => Promise<ReportingUser | undefined>;
+  listConversations: () => Promise<ConversationData[]>;
+  getConversation: (conversationId: string) => Promise<ConversationData | undefined>;
+}
+
+// Whoever sent the request: an integration holding the API token, or a signed-in person
+type Caller = { type: 'integration' } | { type: 'user'; user: ReportingUser };
+
+type Query = Record<string, unknown>;
+
+interface ApiResult {
+  status: number;
+  body: unknown;
+}
+
+const ok = (body: unknown): ApiResult => ({ status: 200, body });
+const fail = (status: number, error: string): ApiResult => ({ status, body: { error } });
+
+// Hashing both sides gives them the same length, which timingSafeEqual needs
+const isApiToken = (supplied: string, token: string): boolean => {
+  const digest = (text: string): Buffer => createHash('sha256').update(text).digest();
+  return timingSafeEqual(digest(supplied), digest(token));
+};
+
+const authenticate = async (authorization: string | undefined, options: ReportingApiOptions): Promise<Caller | undefined> => {
+  const supplied = (authorization || '').replace(/^Bearer\s+/i, '');
+  if (!supplied) {
+    return undefined;
+  }
+  if (options.token && isApiToken(supplied, options.token)) {
+    return { type: 'integration' };
+  }
+  const user = await options.validateUserToken?.(supplied);
+  return user ? { type: 'user', user } : undefined;
+};
+
+// People see the conversations of their own tenant that they are an admin of. Admins are kept by their Teams user
+// ID, which the roster maps to the Entra object ID that single sign-on vouches for.
+export const canViewConversation = (conversationData: ConversationData, user: ReportingUser): boolean => {
+  if (!conversationData.tenantId || conversationData.tenantId !== user.tenantId) {
+    return false;
+  }
+  const members = conversationData.roster?.members || [];
+  return conversationData.admins.some(adminId =>
+    members.some(member => member.id === adminId && member.aadObjectId === user.aadObjectId)
+  );
+};
+
+const canView = (caller: Caller, conversationData: ConversationData): boolean => {
+  return caller.type === 'integration' || canViewConversation(conversationData, caller.user);
+};
+
+const getQueryText = (query: Query, name: string): string | undefined => {
+  const value = query[name];
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+};
+
+// When the earliest of the awards was given, or `fallback` when there are none
+const getFirstAwardTime = (awards: BurritoAward[], fallback: Date): number => {
+  return awards.reduce((first, award) => Math.min(first, new Date(award.timestamp).getTime()), fallback.getTime());
+};
+
+// The period a request covers. "from" and "to" are days (2026-09-01) in the conversation's time zone and either
+// may be left out: the period then starts on the day of the first award or ends today. "range" takes anything
+// /admin report understands, such as "last month". Without any of them, everything is included and the range is
+// undefined.
+export const parseRangeQuery = (query: Query, conversationData: ConversationData, now: Date = new Date()): { range?: DateRange } | { error: string } => {
+  const { timeZone } = conversationData.settings;
+  const text = getQueryText(query, 'range');
+  const from = getQueryText(query, 'from');
+  const to = getQueryText(query, 'to');
+  if (!text && !from && !to) {
+    return {};
+  }
+  const range = text
+    ? parseDateRange(text, timeZone, now)
+    : parseDateRange(`${from || getDateKey(new Date(getFirstAwardTime(conversationData.burritoAwards, now)), 'daily', timeZone)}..${to || getDateKey(now, 'daily', timeZone)}`, timeZone, now);
+  return range ? { range } : { error: 'Use "from" and "to" as YYYY-MM-DD, or a "range" such as "last month".' };
+};
+
+const formatRange = (range?: DateRange) => range ? { from: range.start, to: range.end, label: range.label } : null;
+
+// Award counts per day, week or month, including empty ones so charts show gaps. Longer spans use longer buckets,
+// and spans longer than MAX_TREND_POINTS months only chart the end.
+export const getAwardTrend = (conversationData: ConversationData, range: DateRange | undefined, now: Date = new Date()): { period: ReportPeriod; points: { key: string; count: number }[] } => {
+  const { timeZone } = conversationData.settings;
+  const awards = conversationData.burritoAwards.filter(award => isActiveAward(award) && (!range || isInRange(award.timestamp, range)));
+  const end = Math.min(range?.end.getTime() ?? now.getTime(), now.getTime());
+  const days = (end - (range?.start.getTime() ?? getFirstAwardTime(awards, now))) / DAY_MS;
+  const period: keyof typeof BUCKET_DAYS = days <= 62 ? 'daily' : days <= 366 ? 'weekly' : 'monthly';
+  const start = Math.max(range?.start.getTime() ?? getFirstAwardTime(awards, now), end - MAX_TREND_POINTS * BUCKET_DAYS[period] * DAY_MS);
+
+  const counts = new Map<string, number>();
+  for (let time = start; time < end; time += DAY_MS) {
+    counts.set(getDateKey(new Date(time), period, timeZone), 0);
+  }
+  awards
+    .filter(award => new Date(award.timestamp).getTime() >= start)
+    .forEach(award => {
+      const key = getDateKey(award.timestamp, period, timeZone);
+      counts.set(key, (counts.get(key) || 0) + 1);
+    });
+  const points = Array.from(counts.entries())
+    .sort((a, b) => a[0].localeCompare(b[0]))
+    .slice(-MAX_TREND_POINTS)
+    .map(([key, count]) => ({ key, count }));
+  return { period, points };
+};
+
+const toTopList = (rows: LeaderboardRow[], view: LeaderboardView) => rows.slice(0, TOP_COUNT).map(row => ({
+  userId: row.userId,
+  userName: row.userName,
+  count: view === 'recipients' ? row.received : row.given
+}));
+
+export const getConversationSummary = (conversationData: ConversationData) => {
+  const activeAwards = conversationData.burritoAwards.filter(isActiveAward);
+  const lastAward = activeAwards.reduce<Date | undefined>((latest, award) => !latest || award.timestamp > latest ? award.timestamp : latest, undefined);
+  return {
+    id: conversationData.conversationId,
+    name: conversationData.conversationName || null,
+    type: conversationData.conversationType || null,
+    tenantId: conversationData.tenantId || null,
+    totalAwards: activeAwards.length,
+    lastAwardAt: lastAward || null
+  };
+};
+
+// Everything the dashboard charts for one conversation and period: awards over time, top givers and receivers,
+// values, and the awards themselves in the export format (revoked ones included, with revokedAt set)
+export const getAwardsReport = (conversationData: ConversationData, range?: DateRange, now: Date = new Date()) => {
+  const rangeAwards = conversationData.burritoAwards.filter(award => !range || isInRange(award.timestamp, range));
+  const activeAwards = rangeAwards.filter(isActiveAward);
+  return {
+    conversationId: conversationData.conversationId,
+    timeZone: conversationData.settings.timeZone,
+    range: formatRange(range),
+    total: activeAwards.length,
+    trend: getAwardTrend(conversationData, range, now),
+    topRecipients: toTopList(getLeaderboardRows(conversationData, 'recipients', range), 'recipients'),
+    topGivers: toTopList(getLeaderboardRows(conversationData, 'givers', range), 'givers'),
+    tags: getTopTags(activeAwards).map(([tag, count]) => ({ tag, count })),
+    awards: rangeAwards.map(toExportRow)
+  };
+};
+
+export const getUserReport = (conversationData: ConversationData, userId: string) => {
+  const stats = conversationData.userStats.get(userId);
+  if (!stats) {
+    return undefined;
+  }
+  const recentAwards = conversationData.burritoAwards
+    .filter(award => award.recipientId === userId || award.giverId === userId)
+    .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+    .slice(0, RECENT_AWARDS);
+  return {
+    conversationId: conversationData.conversationId,
+    userId: stats.userId,
+    userName: stats.userName,
+    received: stats.totalReceived,
+    given: stats.totalGiven,
+    spendableBalance: getSpendableBalance(conversationData, userId),
+    badges: stats.badges || [],
+    recentAwards: recentAwards.map(toExportRow)
+  };
+};
+
+// Read-only JSON routes for dashboards, served by the bot's own web server next to /api/messages. The dashboard tab
+// authenticates with the Teams SSO token of whoever opened it, integrations with the API token:
+//   GET /api/conversations
+//   GET /api/conversations/:id/leaderboard?view=recipients|givers&from=&to=&range=&tag=
+//   GET /api/conversations/:id/awards?from=&to=&range=
+//   GET /api/conversations/:id/users/:userId
+export const registerReportingApi = (http: HttpPlugin, options: ReportingApiOptions): void => {
+  const route = (path: string, handle: (caller: Caller, params: Record<string, string>, query: Query) => Promise<ApiResult>) => {
+    http.get(path, async (request, response) => {
+      let result: ApiResult;
+      if (!options.token && !options.validateUserToken) {
+        result = fail(503, 'The reporting API is disabled. Set CLIENT_ID for Teams sign-in, or BURRITO_API_TOKEN.');
+      } else {
+        try {
+          const caller = await authenticate(request.headers.authorization, options);
+          if (caller) {
+            result = await handle(caller, request.params, request.query);
+          } else {
+            response.set('WWW-Authenticate', 'Bearer');
+            result = fail(401, 'Open the dashboard tab in Teams, or send the reporting API token as "Authorization: Bearer <token>".');
+          }
+        } catch (error) {
+          console.error(error);
+          result = fail(500, 'Something went wrong.');
+        }
+      }
+      response.status(result.status).json(result.body);
+    });
+  };
+
+  // Looks up the conversation and the period in the query, then hands both to the route
+  const conversationRoute = (path: string, handle: (conversationData: ConversationData, range: DateRange | undefined, params: Record<string, string>, query: Query) => ApiResult) => {
+    route(`/api/conversations/:id${path}`, async (caller, params, query) => {
+      const conversationData = await options.getConversation(params.id);
+      if (!conversationData) {
+        return fail(404, `There is no conversation with ID ${params.id}.`);
+      }
+      if (!canView(caller, conversationData)) {
+        return fail(403, 'Only the conversation\'s admins can see its reports.');
+      }
+      const parsed = parseRangeQuery(query, conversationData);
+      if ('error' in parsed) {
+        return fail(400, parsed.error);
+      }
+      return handle(conversationData, parsed.range, params, query);
+    });
+  };
+
+  route('/api/conversations', async caller => {
+    const conversations = await options.listConversations();
+    return ok({ conversations: conversations.filter(conversationData => canView(caller, conversationData)).map(getConversationSummary) });
+  });
+
+  conversationRoute('/leaderboard', (conversationData, range, _params, query) => {
+    const view = getQueryText(query, 'view') || 'recipients';
+    if (view !== 'recipients' && view !== 'givers') {
+      return fail(400, 'The view must be "recipients" or "givers".');
+    }
+    const tagText = getQueryText(query, 'tag');
+    const tag = tagText ? normalizeTag(tagText) : undefined;
+    return ok({
+      conversationId: conversationData.conversationId,
+      view,
+      range: formatRange(range),
+      tag: tag || null,
+      rows: getLeaderboardRows(conversationData, view, range, tag)
+    });
+  });
+
+  conversationRoute('/awards', (conversationData, range) => ok(getAwardsReport(conversationData, range)));
+
+  conversationRoute('/users/:userId', (conversationData, _range, params) => {
+    const report = getUserReport(conversationData, params.userId);
+    return report ? ok(report) : fail(404, `${params.userId} hasn't given or received burritos in this conversation.`);
+  });
+};
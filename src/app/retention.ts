@@ -0,0 +1,171 @@
+import { ANONYMISED_USER_ID, ANONYMISED_USER_NAME, isActiveAward, isAnonymisedAward } from "./ledger";
+import { ConversationData, ErasureRecord } from "./types";
+
+// What erased people are called from then on. Their records keep counting, under a pseudonymous ID.
+export const ERASED_USER_NAME = 'Erased user';
+
+// The longest retention period accepted, about a hundred years
+const MAX_RETENTION_DAYS = 36500;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Reads the argument of "/admin retention": "365d", "365 days" or "365", or "off" to keep reasons forever (0).
+// Returns undefined when the text isn't a retention period.
+export const parseRetentionDays = (text: string): number | undefined => {
+  const value = text.trim().toLowerCase();
+  if (value === 'off' || value === 'forever') {
+    return 0;
+  }
+  const match = value.match(/^(\d+)\s*(?:d|days?)?$/);
+  const days = match ? Number(match[1]) : NaN;
+  return days >= 1 && days <= MAX_RETENTION_DAYS ? days : undefined;
+};
+
+// Anonymises awards older than the conversation's retention period: their free-text reasons are removed, and who
+// gave, received or revoked them is replaced with ANONYMISED_USER_ID. Each person's burritos on them move to the
+// anonymised counts in their stats, so totals, balances and all-time leaderboards don't change. When and for which
+// values burritos were given is kept. Returns how many awards were anonymised.
+export const applyRetention = (conversationData: ConversationData, now: Date = new Date()): number => {
+  const { retentionDays } = conversationData.settings;
+  if (!retentionDays) {
+    return 0;
+  }
+  const cutoff = now.getTime() - retentionDays * DAY_MS;
+  let anonymised = 0;
+  conversationData.burritoAwards.forEach(award => {
+    if (isAnonymisedAward(award) || new Date(award.timestamp).getTime() >= cutoff) {
+      return;
+    }
+    if (isActiveAward(award)) {
+      const recipientStats = conversationData.userStats.get(award.recipientId);
+      if (recipientStats) {
+        recipientStats.anonymisedReceived = (recipientStats.anonymisedReceived || 0) + 1;
+      }
+      const giverStats = conversationData.userStats.get(award.giverId);
+      if (giverStats) {
+        giverStats.anonymisedGiven = (giverStats.anonymisedGiven || 0) + 1;
+      }
+    }
+    award.recipientId = ANONYMISED_USER_ID;
+    award.recipientName = ANONYMISED_USER_NAME;
+    award.giverId = ANONYMISED_USER_ID;
+    award.giverName = ANONYMISED_USER_NAME;
+    if (award.revokedById) {
+      award.revokedById = ANONYMISED_USER_ID;
+      award.revokedByName = ANONYMISED_USER_NAME;
+    }
+    delete award.reason;
+    anonymised++;
+  });
+  return anonymised;
+};
+
+export type ErasureResult =
+  | { status: 'erased'; erasure: ErasureRecord; conversations: ConversationData[] }
+  | { status: 'lastAdmin'; conversation: ConversationData }
+  | { status: 'notFound' };
+
+// Replaces the person's ID and name with the pseudonym across one conversation's ledger, redemptions and userStats,
+// and removes the reasons on awards they gave or received, which often name them. Their burritos still count, under
+// the pseudonym. They also lose any admin rights, cached roster entry, remembered messages and reactions, and
+// preferences there.
+// Returns how many awards they gave or received, or undefined when the conversation holds nothing about them.
+const eraseFromConversation = (conversationData: ConversationData, userId: string, pseudonymId: string): number | undefined => {
+  let found = false;
+  let awards = 0;
+
+  conversationData.burritoAwards.forEach(award => {
+    const involved = award.recipientId === userId || award.giverId === userId;
+    if (award.recipientId === userId) {
+      award.recipientId = pseudonymId;
+      award.recipientName = ERASED_USER_NAME;
+    }
+    if (award.giverId === userId) {
+      award.giverId = pseudonymId;
+      award.giverName = ERASED_USER_NAME;
+    }
+    if (award.revokedById === userId) {
+      award.revokedById = pseudonymId;
+      award.revokedByName = ERASED_USER_NAME;
+      found = true;
+    }
+    if (involved) {
+      delete award.reason;
+      awards++;
+    }
+  });
+
+  (conversationData.redemptions || []).forEach(redemption => {
+    if (redemption.userId === userId) {
+      redemption.userId = pseudonymId;
+      redemption.userName = ERASED_USER_NAME;
+      found = true;
+    }
+    if (redemption.decidedById === userId) {
+      redemption.decidedById = pseudonymId;
+      redemption.decidedByName = ERASED_USER_NAME;
+      found = true;
+    }
+  });
+
+  const stats = conversationData.userStats.get(userId);
+  if (stats) {
+    conversationData.userStats.delete(userId);
+    conversationData.userStats.set(pseudonymId, { ...stats, userId: pseudonymId, userName: ERASED_USER_NAME });
+  }
+
+  const wasAdmin = conversationData.admins.includes(userId);
+  conversationData.admins = conversationData.admins.filter(id => id !== userId);
+  const roster = conversationData.roster;
+  const wasMember = roster?.members.some(member => member.id === userId) || false;
+  if (roster) {
+    roster.members = roster.members.filter(member => member.id !== userId);
+  }
+  conversationData.messageAuthors?.forEach((author, messageId) => {
+    if (author.id === userId) {
+      conversationData.messageAuthors!.delete(messageId);
+      found = true;
+    }
+  });
+  conversationData.burritoReactions?.forEach((reactorIds, messageId) => {
+    if (reactorIds.includes(userId)) {
+      conversationData.burritoReactions!.set(messageId, reactorIds.filter(id => id !== userId));
+      found = true;
+    }
+  });
+  const hadPreferences = conversationData.userPreferences?.delete(userId) || false;
+
+  return found || awards > 0 || stats !== undefined || wasAdmin || wasMember || hadPreferences ? awards : undefined;
+};
+
+// Erases a person from the given conversations, normally every chat in the tenant including their personal chat
+// with the bot, under one pseudonym so org-wide totals still add up. The erasure is recorded in each conversation
+// that held data about them, without the person's identity. Nothing is erased while they are the only admin of a
+// chat, as nobody could manage that chat or become admin after them.
+export const forgetUser = (conversations: ConversationData[], userId: string, adminId: string, adminName: string, now: Date = new Date()): ErasureResult => {
+  const administered = conversations.find(conversationData =>
+    conversationData.conversationType !== 'personal' && conversationData.admins.length === 1 && conversationData.admins[0] === userId
+  );
+  if (administered) {
+    return { status: 'lastAdmin', conversation: administered };
+  }
+  const pseudonymId = `erased-${Math.random().toString(36).substr(2, 9)}`;
+  const erased: ConversationData[] = [];
+  let awards = 0;
+  conversations.forEach(conversationData => {
+    const erasedAwards = eraseFromConversation(conversationData, userId, pseudonymId);
+    if (erasedAwards !== undefined) {
+      erased.push(conversationData);
+      awards += erasedAwards;
+    }
+  });
+
+  if (erased.length === 0) {
+    return { status: 'notFound' };
+  }
+  const erasure: ErasureRecord = { pseudonymId, erasedAt: now, erasedById: adminId, erasedByName: adminName, awards };
+  erased.forEach(conversationData => {
+    conversationData.erasures = [...(conversationData.erasures || []), { ...erasure }];
+  });
+  return { status: 'erased', erasure, conversations: erased };
+};
@@ -0,0 +1,114 @@
+import { isActiveAward } from "./ledger";
+import { BurritoAward, ConversationData, Redemption, RewardItem } from "./types";
+
+export type RewardMatch =
+  | { status: 'found'; reward: RewardItem }
+  | { status: 'ambiguous'; candidates: RewardItem[] }
+  | { status: 'missing' };
+
+const createId = (): string => Math.random().toString(36).substr(2, 6);
+
+// Parses the details of `/admin rewards add "Lunch with CTO" 50`. Quotes are optional: the cost is the last word.
+export const parseRewardDefinition = (text: string): { name: string; cost: number } | undefined => {
+  const match = text.trim().match(/^(?:"([^"]+)"|(.+?))\s+(\d+)$/);
+  if (!match) {
+    return undefined;
+  }
+  const name = (match[1] || match[2]).trim();
+  const cost = Number(match[3]);
+  return name && cost > 0 ? { name, cost } : undefined;
+};
+
+export const addReward = (conversationData: ConversationData, name: string, cost: number, now: Date = new Date()): RewardItem => {
+  const reward = { id: createId(), name, cost, createdAt: now };
+  conversationData.rewards = [...(conversationData.rewards || []), reward];
+  return reward;
+};
+
+// Finds a reward by ID or name, accepting any unambiguous part of the name
+export const findReward = (conversationData: ConversationData, query: string): RewardMatch => {
+  const rewards = conversationData.rewards || [];
+  const text = query.trim().replace(/^"|"$/g, '').toLowerCase();
+  const exact = rewards.find(reward => reward.id.toLowerCase() === text || reward.name.toLowerCase() === text);
+  if (exact) {
+    return { status: 'found', reward: exact };
+  }
+  const candidates = rewards.filter(reward => reward.name.toLowerCase().includes(text));
+  if (candidates.length === 1) {
+    return { status: 'found', reward: candidates[0] };
+  }
+  return candidates.length > 1 ? { status: 'ambiguous', candidates } : { status: 'missing' };
+};
+
+// Burritos a user can still spend: everything they have received (and not had revoked), minus redemptions
+// that are waiting for an admin or were approved. This is separate from the lifetime totalReceived.
+export const getSpendableBalance = (conversationData: ConversationData, userId: string): number => {
+  const received = conversationData.burritoAwards.filter(award => award.recipientId === userId && isActiveAward(award)).length
+    + (conversationData.userStats.get(userId)?.anonymisedReceived || 0);
+  const spent = (conversationData.redemptions || [])
+    .filter(redemption => redemption.userId === userId && redemption.status !== 'denied')
+    .reduce((total, redemption) => total + redemption.cost, 0);
+  return received - spent;
+};
+
+// Names the recipients of the awards who have already spent the burritos taking them back would need: revoking
+// the awards would leave a pending or approved redemption of theirs uncovered by their balance.
+export const findSpentRecipients = (conversationData: ConversationData, awards: BurritoAward[]): string[] => {
+  const awardsByRecipient = new Map<string, BurritoAward[]>();
+  awards.filter(isActiveAward).forEach(award => {
+    awardsByRecipient.set(award.recipientId, [...(awardsByRecipient.get(award.recipientId) || []), award]);
+  });
+  return Array.from(awardsByRecipient.entries())
+    .filter(([recipientId, recipientAwards]) => getSpendableBalance(conversationData, recipientId) < recipientAwards.length)
+    .map(([, recipientAwards]) => recipientAwards[0].recipientName);
+};
+
+export const createRedemption = (
+  conversationData: ConversationData,
+  reward: RewardItem,
+  userId: string,
+  userName: string,
+  now: Date = new Date()
+): Redemption => {
+  const redemption: Redemption = {
+    id: createId(),
+    rewardId: reward.id,
+    rewardName: reward.name,
+    cost: reward.cost,
+    userId,
+    userName,
+    conversationId: conversationData.conversationId,
+    requestedAt: now,
+    status: 'pending'
+  };
+  conversationData.redemptions = [...(conversationData.redemptions || []), redemption];
+  return redemption;
+};
+
+export const findRedemption = (conversationData: ConversationData, id: string): Redemption | undefined => {
+  return (conversationData.redemptions || []).find(redemption => redemption.id.toLowerCase() === id.trim().toLowerCase());
+};
+
+export const getPendingRedemptions = (conversationData: ConversationData): Redemption[] => {
+  return (conversationData.redemptions || []).filter(redemption => redemption.status === 'pending');
+};
+
+export const decideRedemption = (
+  redemption: Redemption,
+  decision: 'approved' | 'denied',
+  decidedById: string,
+  decidedByName: string,
+  now: Date = new Date()
+): void => {
+  redemption.status = decision;
+  redemption.decidedAt = now;
+  redemption.decidedById = decidedById;
+  redemption.decidedByName = decidedByName;
+};
+
+export const formatReward = (reward: RewardItem): string => `${reward.name} - 🌯 ${reward.cost}`;
+
+// e.g. "Ann: Lunch with CTO (🌯 50, ID k3x9aa)"
+export const formatRedemption = (redemption: Redemption): string => {
+  return `${redemption.userName}: ${redemption.rewardName} (🌯 ${redemption.cost}, ID ${redemption.id})`;
+};
@@ -0,0 +1,136 @@
+import { Account, Client } from "@microsoft/teams.api";
+import { ConversationData, RosterMember } from "./types";
+
+// Refetch the roster when it is older than this, in case membership events were missed
+const ROSTER_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+export type RecipientMatch =
+  | { status: 'resolved'; member: RosterMember }
+  | { status: 'ambiguous'; candidates: RosterMember[] }
+  | { status: 'unknown' };
+
+// Lowercases, strips accents and collapses whitespace so "José  García" matches "jose garcia"
+export const normalizeName = (name: string): string => {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+const toRosterMember = (account: Account): RosterMember => ({
+  id: account.id,
+  name: account.name,
+  aadObjectId: account.aadObjectId
+});
+
+export const refreshRoster = async (conversationData: ConversationData, api: Client, botId?: string): Promise<void> => {
+  const accounts = await api.conversations.members(conversationData.conversationId).get();
+  conversationData.roster = {
+    members: accounts.filter(account => account.id !== botId).map(toRosterMember),
+    lastRefreshed: new Date()
+  };
+};
+
+// Makes sure a reasonably fresh roster is cached. If Teams can't be reached the stale copy is kept.
+export const ensureRoster = async (conversationData: ConversationData, api: Client, botId?: string): Promise<void> => {
+  const roster = conversationData.roster;
+  if (roster && Date.now() - new Date(roster.lastRefreshed).getTime() < ROSTER_MAX_AGE_MS) {
+    return;
+  }
+  try {
+    await refreshRoster(conversationData, api, botId);
+  } catch (error) {
+    console.error(`Failed to load members of ${conversationData.conversationId}:`, error);
+  }
+};
+
+// Applies a conversationUpdate membership change to the cached roster
+export const applyMembershipChanges = (
+  conversationData: ConversationData,
+  added: Account[],
+  removed: Account[],
+  botId?: string
+): void => {
+  if (!conversationData.roster) {
+    return;
+  }
+  const removedIds = new Set(removed.map(account => account.id));
+  const members = conversationData.roster.members.filter(member => !removedIds.has(member.id));
+  for (const account of added) {
+    if (account.id !== botId && !members.some(member => member.id === account.id)) {
+      members.push(toRosterMember(account));
+    }
+  }
+  conversationData.roster.members = members;
+};
+
+// Finds who a typed name refers to. Tries an exact full-name match first, then every typed word
+// matching a word of the member's name ("john" or "john smith"), then word prefixes ("jo sm").
+export const resolveRecipient = (conversationData: ConversationData, name: string): RecipientMatch => {
+  const members = conversationData.roster?.members || [];
+  const query = normalizeName(name);
+  const queryWords = query.split(' ').filter(word => word.length > 0);
+  if (queryWords.length === 0) {
+    return { status: 'unknown' };
+  }
+
+  const candidates = members.map(member => ({ member, normalized: normalizeName(member.name || '') }));
+  const tiers: ((normalized: string) => boolean)[] = [
+    normalized => normalized === query,
+    normalized => queryWords.every(word => normalized.split(' ').includes(word)),
+    normalized => queryWords.every(word => word.length >= 2 && normalized.split(' ').some(part => part.startsWith(word)))
+  ];
+
+  for (const matches of tiers) {
+    const found = candidates.filter(candidate => matches(candidate.normalized)).map(candidate => candidate.member);
+    if (found.length === 1) {
+      return { status: 'resolved', member: found[0] };
+    }
+    if (found.length > 1) {
+      return { status: 'ambiguous', candidates: found };
+    }
+  }
+  return { status: 'unknown' };
+};
+
+export type RecipientsMatch =
+  | { status: 'resolved'; members: RosterMember[] }
+  | { status: 'ambiguous'; name: string; candidates: RosterMember[] }
+  | { status: 'unknown'; name: string };
+
+// Finds everyone a list of typed names refers to, such as "Ana, Raj and Lee" or "Ana Raj Lee". Names are split on
+// commas, "&", "+" and "and", then each run of words is matched longest first, so "Sarah Lee Tom" is Sarah Lee and Tom.
+// Stops at the first name that matches nobody or several people. People named twice are only returned once.
+export const resolveRecipients = (conversationData: ConversationData, text: string): RecipientsMatch => {
+  const members: RosterMember[] = [];
+  const parts = text.split(/,|&|\+|\band\b/i)
+    .map(part => part.split(/\s+/).map(word => word.replace(/^@/, '')).filter(word => word.length > 0))
+    .filter(words => words.length > 0);
+  for (const words of parts) {
+    let start = 0;
+    while (start < words.length) {
+      let end = words.length;
+      let match: RecipientMatch = { status: 'unknown' };
+      for (; end > start; end--) {
+        match = resolveRecipient(conversationData, words.slice(start, end).join(' '));
+        if (match.status !== 'unknown') {
+          break;
+        }
+      }
+      if (match.status === 'unknown') {
+        return { status: 'unknown', name: words.slice(start).join(' ') };
+      }
+      if (match.status === 'ambiguous') {
+        return { status: 'ambiguous', name: words.slice(start, end).join(' '), candidates: match.candidates };
+      }
+      const member = match.member;
+      if (!members.some(existing => existing.id === member.id)) {
+        members.push(member);
+      }
+      start = end;
+    }
+  }
+  return parts.length > 0 ? { status: 'resolved', members } : { status: 'unknown', name: text.trim() };
+};
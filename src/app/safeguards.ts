@@ -0,0 +1,114 @@
+import { Translator } from "./i18n";
+import { isActiveAward } from "./ledger";
+import { DateRange, getDateKey, isInRange } from "./periods";
+import { BurritoAward, ConversationData } from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How far back /admin anomalies looks by default
+export const ANOMALY_WINDOW_DAYS = 30;
+
+export type PairLimitPeriod = ConversationData['settings']['pairLimitPeriod'];
+
+export const PAIR_LIMIT_PERIODS: PairLimitPeriod[] = ['daily', 'weekly', 'monthly'];
+
+// Two people and what they gave each other. Pairs are unordered: userA is whoever gave the most.
+export interface SuspiciousPair {
+  userAId: string;
+  userAName: string;
+  userBId: string;
+  userBName: string;
+  aToB: number;
+  bToA: number;
+  reason: 'reciprocal' | 'concentrated';
+}
+
+export const getAnomalyRange = (t: Translator, now: Date = new Date()): DateRange => ({
+  start: new Date(now.getTime() - ANOMALY_WINDOW_DAYS * DAY_MS),
+  end: new Date(now.getTime() + 1),
+  label: t('anomalies.window', { count: ANOMALY_WINDOW_DAYS })
+});
+
+// Burritos a giver has already given one recipient in the current pair limit period
+export const getGivenToRecipient = (conversationData: ConversationData, giverId: string, recipientId: string, now: Date = new Date()): number => {
+  const { pairLimitPeriod, timeZone } = conversationData.settings;
+  const current = getDateKey(now, pairLimitPeriod, timeZone);
+  return conversationData.burritoAwards.filter(award =>
+    award.giverId === giverId && award.recipientId === recipientId && isActiveAward(award)
+      && getDateKey(new Date(award.timestamp), pairLimitPeriod, timeZone) === current
+  ).length;
+};
+
+// How many more burritos a giver may give this recipient in the current period. A limit of 0 means unlimited.
+export const getRemainingPairAllowance = (conversationData: ConversationData, giverId: string, recipientId: string, now: Date = new Date()): number => {
+  const limit = conversationData.settings.pairLimit;
+  if (limit <= 0) {
+    return Infinity;
+  }
+  return Math.max(0, limit - getGivenToRecipient(conversationData, giverId, recipientId, now));
+};
+
+// Counts active awards per giver -> recipient direction, keyed "giverId recipientId"
+const countDirections = (awards: BurritoAward[]): Map<string, { award: BurritoAward; count: number }> => {
+  const directions = new Map<string, { award: BurritoAward; count: number }>();
+  awards.filter(isActiveAward).forEach(award => {
+    const key = `${award.giverId} ${award.recipientId}`;
+    const direction = directions.get(key) || { award, count: 0 };
+    direction.count++;
+    directions.set(key, direction);
+  });
+  return directions;
+};
+
+// Pairs worth an admin's attention in the range:
+// - reciprocal: both people gave each other at least `reciprocalThreshold` burritos
+// - concentrated: one person gave at least that many to a single recipient, and that was most of what they gave
+export const findSuspiciousPairs = (conversationData: ConversationData, range: DateRange): SuspiciousPair[] => {
+  const threshold = conversationData.settings.reciprocalThreshold;
+  if (threshold <= 0) {
+    return [];
+  }
+  const awards = conversationData.burritoAwards.filter(award => isInRange(award.timestamp, range));
+  const directions = countDirections(awards);
+  const givenTotals = new Map<string, number>();
+  directions.forEach(({ award, count }) => givenTotals.set(award.giverId, (givenTotals.get(award.giverId) || 0) + count));
+
+  const pairs: SuspiciousPair[] = [];
+  const seen = new Set<string>();
+  directions.forEach(({ award, count }, key) => {
+    const reverseKey = `${award.recipientId} ${award.giverId}`;
+    if (seen.has(key)) {
+      return;
+    }
+    seen.add(key);
+    seen.add(reverseKey);
+    const reverse = directions.get(reverseKey);
+    const reverseCount = reverse?.count || 0;
+    const [aToB, bToA, forward] = count >= reverseCount ? [count, reverseCount, true] : [reverseCount, count, false];
+    const pair = {
+      userAId: forward ? award.giverId : award.recipientId,
+      userAName: forward ? award.giverName : award.recipientName,
+      userBId: forward ? award.recipientId : award.giverId,
+      userBName: forward ? award.recipientName : award.giverName,
+      aToB,
+      bToA
+    };
+    if (bToA >= threshold) {
+      pairs.push({ ...pair, reason: 'reciprocal' });
+    } else if (aToB >= threshold && aToB * 2 > (givenTotals.get(pair.userAId) || 0)) {
+      pairs.push({ ...pair, reason: 'concentrated' });
+    }
+  });
+
+  // Reciprocal pairs first, then by how many burritos changed hands
+  return pairs.sort((a, b) =>
+    (a.reason === b.reason ? 0 : a.reason === 'reciprocal' ? -1 : 1) || (b.aToB + b.bToA) - (a.aToB + a.bToA)
+  );
+};
+
+export const formatSuspiciousPair = (pair: SuspiciousPair, t: Translator): string => {
+  const names = { userA: pair.userAName, userB: pair.userBName };
+  return pair.reason === 'reciprocal'
+    ? t('anomalies.reciprocal', { ...names, aToB: pair.aToB, bToA: pair.bToA })
+    : t('anomalies.concentrated', { ...names, count: pair.aToB });
+};
@@ -0,0 +1,104 @@
+import { Translator } from "./i18n";
+import { atLocalTime, DateRange, getLocalDay, getPeriodRange } from "./periods";
+import { DigestSchedule } from "./types";
+
+const WEEKDAY_NAMES = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+// Why a schedule couldn't be parsed, reported to the admin as the "schedule.error.*" message
+export type ScheduleError = 'missingTime' | 'missingWeekday' | 'missingDayOfMonth' | 'unknownFrequency';
+
+const pad = (value: number): string => `${value}`.padStart(2, '0');
+
+const parseTime = (text: string | undefined): { hour: number; minute: number } | undefined => {
+  const match = text?.match(/^(\d{1,2})(?::(\d{2}))?$/);
+  if (!match) {
+    return undefined;
+  }
+  const hour = Number(match[1]);
+  const minute = Number(match[2] || 0);
+  return hour <= 23 && minute <= 59 ? { hour, minute } : undefined;
+};
+
+// Parses the arguments of "/admin schedule": "daily 09:00", "weekly fri 16:00" or "monthly 1 09:00".
+// Returns what is missing instead when the text isn't a valid schedule.
+export const parseDigestSchedule = (args: string[], now: Date = new Date()): DigestSchedule | ScheduleError => {
+  const [frequency, ...rest] = args;
+
+  switch (frequency) {
+    case 'daily': {
+      const time = parseTime(rest[0]);
+      return time ? { frequency, ...time, createdAt: now } : 'missingTime';
+    }
+    case 'weekly': {
+      const weekday = WEEKDAY_NAMES.findIndex(name => rest[0] && (name === rest[0] || name.slice(0, 3) === rest[0]));
+      const time = parseTime(rest[1]);
+      if (weekday < 0 || !time) {
+        return 'missingWeekday';
+      }
+      return { frequency, weekday, ...time, createdAt: now };
+    }
+    case 'monthly': {
+      const dayOfMonth = Number(rest[0]);
+      const time = parseTime(rest[1]);
+      if (!Number.isInteger(dayOfMonth) || dayOfMonth < 1 || dayOfMonth > 28 || !time) {
+        return 'missingDayOfMonth';
+      }
+      return { frequency, dayOfMonth, ...time, createdAt: now };
+    }
+    default:
+      return 'unknownFrequency';
+  }
+};
+
+export const formatDigestSchedule = (schedule: DigestSchedule, t: Translator): string => {
+  const time = `${pad(schedule.hour)}:${pad(schedule.minute)}`;
+  switch (schedule.frequency) {
+    case 'weekly':
+      // 1 January 2024 was a Monday, so adding the weekday index gives a date on that day
+      const weekday = new Intl.DateTimeFormat(t.locale, { weekday: 'long', timeZone: 'UTC' })
+        .format(new Date(Date.UTC(2024, 0, 1 + (schedule.weekday ?? 0))));
+      return t('schedule.weekly', { weekday, time });
+    case 'monthly':
+      return t('schedule.monthly', { day: schedule.dayOfMonth ?? 1, time });
+    default:
+      return t('schedule.daily', { time });
+  }
+};
+
+// The most recent moment the schedule should have fired at or before `now`
+export const getLastDigestSlot = (schedule: DigestSchedule, timeZone: string, now: Date = new Date()): Date | undefined => {
+  let day = now;
+  // Walking back a little over a month always reaches a slot, whatever the frequency
+  for (let i = 0; i < 32; i++) {
+    const { weekday, dayOfMonth } = getLocalDay(day, timeZone);
+    const matches = schedule.frequency === 'daily'
+      || (schedule.frequency === 'weekly' && weekday === schedule.weekday)
+      || (schedule.frequency === 'monthly' && dayOfMonth === schedule.dayOfMonth);
+    if (matches) {
+      const slot = atLocalTime(day, schedule.hour, schedule.minute, timeZone);
+      if (slot.getTime() <= now.getTime()) {
+        return slot;
+      }
+    }
+    day = new Date(getPeriodRange('daily', day, timeZone).start.getTime() - 1);
+  }
+  return undefined;
+};
+
+// A digest is due once per slot. After downtime only the latest missed slot is sent, not every one.
+export const isDigestDue = (schedule: DigestSchedule, timeZone: string, now: Date = new Date()): boolean => {
+  const slot = getLastDigestSlot(schedule, timeZone, now);
+  if (!slot || slot.getTime() < new Date(schedule.createdAt).getTime()) {
+    return false;
+  }
+  return !schedule.lastSentAt || new Date(schedule.lastSentAt).getTime() < slot.getTime();
+};
+
+// Daily and weekly digests cover the day or week they are posted in; monthly digests recap the previous month
+export const getDigestRange = (schedule: DigestSchedule, timeZone: string, now: Date = new Date()): DateRange => {
+  if (schedule.frequency === 'monthly') {
+    const thisMonth = getPeriodRange('monthly', now, timeZone);
+    return getPeriodRange('monthly', new Date(thisMonth.start.getTime() - 1), timeZone);
+  }
+  return getPeriodRange(schedule.frequency, now, timeZone);
+};
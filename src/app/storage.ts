@@ -0,0 +1,226 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import { createHash } from "crypto";
+import { IStorage, LocalStorage } from "@microsoft/teams.common";
+import { ConversationData } from "./types";
+
+// Storage interface for conversation data, keyed by conversation ID
+export interface ConversationStore extends IStorage<string, ConversationData> {
+  get(conversationId: string): Promise<ConversationData | undefined>;
+  set(conversationId: string, data: ConversationData): Promise<void>;
+  delete(conversationId: string): Promise<void>;
+  keys(): Promise<string[]>;
+}
+
+// JSON cannot represent Date or Map, so both are written as tagged objects and revived on read
+const serializeConversationData = (data: ConversationData): string => {
+  return JSON.stringify(data, function (this: Record<string, unknown>, key: string, value: unknown) {
+    const raw = this[key];
+    if (raw instanceof Date) {
+      return { $type: 'Date', value: raw.toISOString() };
+    }
+    if (raw instanceof Map) {
+      return { $type: 'Map', value: Array.from(raw.entries()) };
+    }
+    return value;
+  }, 2);
+};
+
+const deserializeConversationData = (json: string): ConversationData => {
+  return JSON.parse(json, (_key: string, value: unknown) => {
+    if (typeof value === 'object' && value !== null && '$type' in value && 'value' in value) {
+      if (value.$type === 'Date' && typeof value.value === 'string') {
+        return new Date(value.value);
+      }
+      if (value.$type === 'Map' && Array.isArray(value.value)) {
+        return new Map(value.value);
+      }
+    }
+    return value;
+  });
+};
+
+const isMissingFile = (error: unknown): boolean => error instanceof Error && 'code' in error && error.code === 'ENOENT';
+
+// Keeps every conversation as a serialized string in the in-memory LocalStorage from teams.common.
+// Nothing survives a restart, but reads and writes go through the same serialization as the file store.
+export class LocalConversationStore implements ConversationStore {
+  protected readonly storage: LocalStorage<string>;
+
+  constructor(storage?: LocalStorage<string>) {
+    this.storage = storage || new LocalStorage<string>();
+  }
+
+  async get(conversationId: string): Promise<ConversationData | undefined> {
+    const json = this.storage.get(conversationId);
+    return json ? deserializeConversationData(json) : undefined;
+  }
+
+  async set(conversationId: string, data: ConversationData): Promise<void> {
+    this.storage.set(conversationId, serializeConversationData(data));
+  }
+
+  async delete(conversationId: string): Promise<void> {
+    this.storage.delete(conversationId);
+  }
+
+  async keys(): Promise<string[]> {
+    return [...this.storage.keys];
+  }
+}
+
+// Conversation files are named after the SHA-256 of the conversation ID
+const DATA_FILE = /^[0-9a-f]{64}\.json$/;
+const INDEX_FILE = 'index.json';
+
+// Writes one JSON file per conversation. Each save goes to a temporary file that is flushed
+// and then renamed over the old one, so a crash mid-save leaves the previous version intact.
+// File names are hashed, so the conversation IDs are listed in index.json for keys().
+export class FileConversationStore implements ConversationStore {
+  protected readonly directory: string;
+  protected readonly pendingWrites = new Map<string, Promise<void>>();
+  // Loaded on first use and kept in step with every save and delete
+  protected index?: Promise<Set<string>>;
+  protected indexWrite: Promise<void> = Promise.resolve();
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async get(conversationId: string): Promise<ConversationData | undefined> {
+    await this.pendingWrites.get(conversationId)?.catch(() => undefined);
+    try {
+      const json = await fs.readFile(this.filePath(conversationId), 'utf8');
+      return deserializeConversationData(json);
+    } catch (error) {
+      if (isMissingFile(error)) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async set(conversationId: string, data: ConversationData): Promise<void> {
+    const json = serializeConversationData(data);
+    // Queue behind any in-flight write for the same conversation so renames land in order
+    const previous = this.pendingWrites.get(conversationId) || Promise.resolve();
+    const write = previous
+      .catch(() => undefined)
+      .then(() => this.writeAtomic(this.filePath(conversationId), json));
+    this.pendingWrites.set(conversationId, write);
+
+    try {
+      await write;
+    } finally {
+      if (this.pendingWrites.get(conversationId) === write) {
+        this.pendingWrites.delete(conversationId);
+      }
+    }
+
+    const index = await this.loadIndex();
+    if (!index.has(conversationId)) {
+      index.add(conversationId);
+      await this.saveIndex(index);
+    }
+  }
+
+  async delete(conversationId: string): Promise<void> {
+    await this.pendingWrites.get(conversationId)?.catch(() => undefined);
+    await fs.rm(this.filePath(conversationId), { force: true });
+    const index = await this.loadIndex();
+    if (index.delete(conversationId)) {
+      await this.saveIndex(index);
+    }
+  }
+
+  async keys(): Promise<string[]> {
+    return [...await this.loadIndex()];
+  }
+
+  protected loadIndex(): Promise<Set<string>> {
+    this.index ??= this.readIndex();
+    return this.index;
+  }
+
+  // Reads index.json. Data directories from before the index, or whose index a crash left behind the data
+  // files, are scanned once to rebuild it.
+  protected async readIndex(): Promise<Set<string>> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error) {
+      if (isMissingFile(error)) {
+        return new Set<string>();
+      }
+      throw error;
+    }
+    const dataFiles = files.filter(file => DATA_FILE.test(file));
+
+    if (files.includes(INDEX_FILE)) {
+      const ids = JSON.parse(await fs.readFile(path.join(this.directory, INDEX_FILE), 'utf8'));
+      if (Array.isArray(ids) && ids.length === dataFiles.length) {
+        return new Set<string>(ids);
+      }
+    }
+
+    const ids = new Set<string>();
+    for (const file of dataFiles) {
+      const json = await fs.readFile(path.join(this.directory, file), 'utf8');
+      ids.add(deserializeConversationData(json).conversationId);
+    }
+    await this.saveIndex(ids);
+    return ids;
+  }
+
+  // Index writes are queued so they land in order
+  protected saveIndex(index: Set<string>): Promise<void> {
+    const json = JSON.stringify([...index], null, 2);
+    this.indexWrite = this.indexWrite
+      .catch(() => undefined)
+      .then(() => this.writeAtomic(path.join(this.directory, INDEX_FILE), json));
+    return this.indexWrite;
+  }
+
+  protected filePath(conversationId: string): string {
+    // Teams conversation IDs contain characters such as ':' and ';' that are not valid in file names
+    const hash = createHash('sha256').update(conversationId).digest('hex');
+    return path.join(this.directory, `${hash}.json`);
+  }
+
+  protected async writeAtomic(filePath: string, contents: string): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+    const handle = await fs.open(tempPath, 'w');
+    try {
+      await handle.writeFile(contents, 'utf8');
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+
+    try {
+      await fs.rename(tempPath, filePath);
+    } catch (error) {
+      await fs.rm(tempPath, { force: true });
+      throw error;
+    }
+  }
+}
+
+// Where the data files go unless BURRITO_DATA_DIR says otherwise. On Azure App Service the app runs from a read-only
+// package, so they go to the persistent, writable home share instead of the working directory.
+export const getDefaultDataDirectory = (env: NodeJS.ProcessEnv = process.env): string => {
+  return env.RUNNING_ON_AZURE === '1' && env.HOME ? path.join(env.HOME, 'data', 'burritobot') : path.join(process.cwd(), 'data');
+};
+
+export const createConversationStore = (type?: string, directory?: string): ConversationStore => {
+  switch ((type || 'file').toLowerCase()) {
+    case 'memory':
+    case 'local':
+      return new LocalConversationStore();
+    case 'file':
+      return new FileConversationStore(directory || getDefaultDataDirectory());
+    default:
+      throw new Error(`Unknown burrito storage type "${type}". Use "file" or "memory".`);
+  }
+};
@@ -0,0 +1,36 @@
+import { BurritoAward } from "./types";
+
+// Hashtags such as #ownership or #customer-first. Letters in any language, digits, _ and - are allowed.
+const TAG_PATTERN = /#([\p{L}\p{N}_-]+)/gu;
+
+// Tags are stored lowercased and without the #
+export const normalizeTag = (tag: string): string => tag.trim().replace(/^#/, '').toLowerCase();
+
+export const formatTag = (tag: string): string => `#${tag}`;
+
+export const extractTags = (text: string): string[] => {
+  const tags = Array.from(text.matchAll(TAG_PATTERN), match => normalizeTag(match[1]));
+  return Array.from(new Set(tags));
+};
+
+export const removeTags = (text: string): string => text.replace(TAG_PATTERN, ' ').replace(/\s+/g, ' ').trim();
+
+// Splits tags into those the conversation accepts and those it doesn't. An empty allow-list accepts every tag.
+export const filterAllowedTags = (tags: string[], allowedTags: string[]): { accepted: string[]; rejected: string[] } => {
+  if (allowedTags.length === 0) {
+    return { accepted: tags, rejected: [] };
+  }
+  return {
+    accepted: tags.filter(tag => allowedTags.includes(tag)),
+    rejected: tags.filter(tag => !allowedTags.includes(tag))
+  };
+};
+
+// How often each tag was used across the awards, most used first
+export const getTopTags = (awards: BurritoAward[]): [string, number][] => {
+  const counts = new Map<string, number>();
+  awards.forEach(award => {
+    (award.tags || []).forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1));
+  });
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+};
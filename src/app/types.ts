@@ -0,0 +1,139 @@
+import { ConversationReference } from "@microsoft/teams.api";
+
+// Interfaces for burrito tracking
+export interface BurritoAward {
+  id: string;
+  recipientId: string;
+  recipientName: string;
+  giverId: string;
+  giverName: string;
+  conversationId: string;
+  timestamp: Date;
+  reason?: string;
+  tags?: string[]; // Company values from hashtags in the message, lowercased and without the #
+  // Revoked awards stay in the ledger for the audit trail but no longer count anywhere
+  revokedAt?: Date;
+  revokedById?: string;
+  revokedByName?: string;
+}
+
+// Something a user has achieved, such as a milestone. Badges are kept even if awards are later revoked.
+export interface Badge {
+  id: string; // e.g. first-burrito, received-50, streak-4
+  label: string;
+  achievedAt: Date;
+}
+
+export interface UserBurritoStats {
+  userId: string;
+  userName: string;
+  totalReceived: number;
+  totalGiven: number;
+  // Burritos on awards that the retention period anonymised. The ledger no longer says whose they were, so they are
+  // carried here and still counted in the totals and the spendable balance.
+  anonymisedReceived?: number;
+  anonymisedGiven?: number;
+  lastUpdated: Date;
+  badges?: Badge[];
+}
+
+// How someone hears about burritos they receive, besides the message in the chat
+export type NotificationMode = 'off' | 'daily' | 'instant';
+
+// Settings a person chooses for themselves in their personal chat with the bot
+export interface UserPreferences {
+  userId: string;
+  notifications: NotificationMode;
+  locale?: string; // Their Teams language, for notices about awards in other chats
+  digest?: DigestSchedule; // When daily notifications are sent
+}
+
+export interface RosterMember {
+  id: string;
+  name: string;
+  aadObjectId?: string;
+}
+
+export interface ConversationRoster {
+  members: RosterMember[]; // Everyone in the conversation except the bot
+  lastRefreshed: Date;
+}
+
+export interface ConversationSettings {
+  dailyQuota: number; // Burritos each person can give per day, 0 means unlimited
+  timeZone: string; // IANA time zone for daily quota resets and report periods
+  includeInOrgStats: boolean; // Whether this conversation counts towards org-wide leaderboards and stats
+  allowedTags: string[]; // Hashtags that are recorded on awards, empty to allow any
+  pairLimit: number; // Burritos one person can give the same recipient per pairLimitPeriod, 0 means unlimited
+  pairLimitPeriod: 'daily' | 'weekly' | 'monthly';
+  reciprocalThreshold: number; // Burritos each way before two people are flagged in /admin anomalies, 0 turns flagging off
+  requireReason: boolean; // Awards must say what they are for
+  milestones: number[]; // Burritos received that earn a celebration, in ascending order
+  streakWeeks: number; // Consecutive weeks of giving that earn a celebration, 0 turns streaks off
+  language?: string; // Locale for replies, e.g. de. Unset follows each person's Teams language
+  retentionDays: number; // Reasons are removed from awards older than this many days, 0 keeps them forever
+}
+
+export interface DigestSchedule {
+  frequency: 'daily' | 'weekly' | 'monthly';
+  weekday?: number; // Weekly digests: Monday = 0 ... Sunday = 6
+  dayOfMonth?: number; // Monthly digests: 1-28, so every month has the day
+  hour: number;
+  minute: number;
+  createdAt: Date; // Slots before this are never sent, so a new schedule doesn't fire straight away
+  lastSentAt?: Date;
+}
+
+// Something from the conversation's catalog that burritos can be spent on
+export interface RewardItem {
+  id: string;
+  name: string;
+  cost: number; // In burritos
+  createdAt: Date;
+}
+
+// A request to spend burritos on a reward. Pending and approved redemptions are deducted from the
+// user's spendable balance; denied ones are refunded.
+export interface Redemption {
+  id: string;
+  rewardId: string;
+  rewardName: string; // Copied, so the ledger still reads correctly if the reward is removed
+  cost: number;
+  userId: string;
+  userName: string;
+  conversationId: string;
+  requestedAt: Date;
+  status: 'pending' | 'approved' | 'denied';
+  decidedAt?: Date;
+  decidedById?: string;
+  decidedByName?: string;
+}
+
+// Audit entry for an erased person. It names the pseudonym their records now carry, never the person.
+export interface ErasureRecord {
+  pseudonymId: string;
+  erasedAt: Date;
+  erasedById: string;
+  erasedByName: string;
+  awards: number; // Awards they gave or received, across all the chats they were erased from
+}
+
+export interface ConversationData {
+  conversationId: string;
+  tenantId?: string; // Microsoft 365 tenant, used to group conversations for org-wide stats
+  conversationName?: string;
+  conversationType?: string; // personal, groupChat or channel
+  admins: string[]; // User IDs of admins
+  burritoAwards: BurritoAward[];
+  userStats: Map<string, UserBurritoStats>;
+  userPreferences?: Map<string, UserPreferences>; // Kept in personal chats only
+  settings: ConversationSettings;
+  roster?: ConversationRoster; // Cached member list used to resolve recipients by name
+  messageAuthors?: Map<string, RosterMember>; // Who wrote the latest messages, by message ID, for 🌯 reactions
+  burritoReactions?: Map<string, string[]>; // Who gave a burrito by 🌯 reaction to the latest messages, by message ID
+  digestSchedule?: DigestSchedule;
+  reference?: ConversationReference; // Where proactive messages such as digests are posted
+  rewards?: RewardItem[];
+  redemptions?: Redemption[];
+  erasures?: ErasureRecord[];
+}
@@ -3,6 +3,16 @@ const config = {
   MicrosoftAppType: process.env.BOT_TYPE,
   MicrosoftAppTenantId: process.env.TENANT_ID,
   MicrosoftAppPassword: process.env.CLIENT_SECRET,
+  BurritoStorageType: process.env.BURRITO_STORAGE,
+  BurritoDataDirectory: process.env.BURRITO_DATA_DIR,
+  BurritoDailyQuota: process.env.BURRITO_DAILY_QUOTA,
+  BurritoTimeZone: process.env.BURRITO_TIMEZONE,
+  BurritoIntentModel: process.env.BURRITO_INTENT_MODEL,
+  BurritoApiToken: process.env.BURRITO_API_TOKEN,
+  BotEndpoint: process.env.BOT_ENDPOINT,
+  OpenAIApiKey: process.env.OPENAI_API_KEY,
+  OpenAIModel: process.env.OPENAI_MODEL,
+  OpenAIBaseUrl: process.env.OPENAI_BASE_URL,
 };
 
 export default config;
@@ -1,7 +1,8 @@
-import app from "./app/app";
+import app, { startDigestScheduler } from "./app/app";
 
 // Start the application
 (async () => {
   await app.start(process.env.PORT || process.env.port || 3978);
   console.log(`\nAgent started, app listening to`, process.env.PORT || process.env.port || 3978);
+  startDigestScheduler();
 })();
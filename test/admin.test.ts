@@ -0,0 +1,136 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createAdminChat, createTestChat, mention, TestUser } from "./driver";
+
+const ann: TestUser = { id: 'ann', name: 'Ann Smith' };
+const sarah: TestUser = { id: 'sarah', name: 'Sarah Lee' };
+const tom: TestUser = { id: 'tom', name: 'Tom Jones' };
+const team = [ann, sarah, tom];
+
+describe('admin commands', () => {
+  it('lets the first person claim admin, and nobody after them', async () => {
+    const chat = createTestChat({ members: team });
+    assert.match((await chat.ask(ann, '/makeadmin'))[0].text, /You \(Ann Smith\) are now an admin/);
+    assert.match((await chat.ask(sarah, '/makeadmin'))[0].text, /already has admins/);
+  });
+
+  it('turns non-admins away with a tip', async () => {
+    const chat = createTestChat({ members: team });
+    assert.match((await chat.ask(sarah, '/admin list'))[0].text, /not an admin.*\n\n.*\/makeadmin/s);
+    await chat.ask(ann, '/makeadmin');
+    assert.match((await chat.ask(sarah, '/admin list'))[0].text, /Ask an existing admin/);
+  });
+
+  it('adds, lists and removes admins, keeping at least one', async () => {
+    const chat = await createAdminChat({ members: team });
+    assert.match((await chat.ask(ann, `/admin add ${mention(sarah)}`))[0].text, /Sarah Lee is now an admin/);
+    const list = await chat.ask(sarah, '/admin list');
+    assert.match(list[0].text, /Admins \(2\)/);
+    assert.match((await chat.ask(ann, `/admin remove ${mention(sarah)}`))[0].text, /Sarah Lee is no longer an admin/);
+    assert.match((await chat.ask(ann, `/admin remove ${mention(ann)}`))[0].text, /last admin/);
+  });
+
+  it('shows a user\'s stats', async () => {
+    const chat = await createAdminChat({ members: team });
+    await chat.say(sarah, 'give Tom a burrito 🌯🌯');
+    const replies = await chat.ask(ann, `/admin stats ${mention(tom)}`);
+    assert.match(replies[0].text, /Stats for Tom Jones/);
+    assert.match(replies[0].text, /Burritos Received: 2/);
+  });
+
+  it('changes the daily quota', async () => {
+    const chat = await createAdminChat({ members: team });
+    assert.match((await chat.ask(ann, '/admin quota 1'))[0].text, /can now give 1 burrito per day/);
+    assert.match((await chat.say(sarah, 'give Tom a burrito 🌯🌯'))[0].text, /received 1 burrito.*Only 1 could be given/s);
+    assert.match((await chat.ask(ann, '/admin quota lots'))[0].text, /whole number/);
+    assert.match((await chat.ask(ann, '/admin quota timezone Europe/Tallinn'))[0].text, /whole number/);
+  });
+
+  it('revokes an award by its ID', async () => {
+    const chat = await createAdminChat({ members: team });
+    await chat.say(sarah, 'give Tom a burrito');
+    const listing = await chat.ask(ann, '/admin revoke');
+    const id = listing[0].text.match(/• `([^`]+)` Sarah Lee → Tom Jones/)![1];
+    assert.match((await chat.ask(ann, `/admin revoke ${id}`))[0].text, /Revoked the burrito Sarah Lee gave Tom Jones/);
+    assert.match((await chat.ask(ann, `/admin revoke ${id}`))[0].text, /already revoked/);
+    assert.match((await chat.ask(tom, 'my burritos'))[0].text, /received 0 burritos/);
+  });
+
+  it('requires a reason once the safeguard is on', async () => {
+    const chat = await createAdminChat({ members: team });
+    await chat.ask(ann, '/admin safeguards reason on');
+    assert.match((await chat.say(sarah, 'give Tom a burrito'))[0].text, /asks for a reason/);
+    assert.match((await chat.say(sarah, 'give Tom a burrito for the demo'))[0].text, /for: the demo/);
+  });
+
+  it('limits how often one person rewards the same recipient', async () => {
+    const chat = await createAdminChat({ members: team });
+    assert.match((await chat.ask(ann, '/admin safeguards limit 2 weekly'))[0].text, /2 burritos per recipient per week/);
+    assert.match((await chat.say(sarah, 'give Tom a burrito 🌯🌯🌯'))[0].text, /Only 2 could be given because of the limit per recipient this week/);
+    assert.match((await chat.say(sarah, 'give Tom a burrito'))[0].text, /already given Tom Jones 2 burritos this week/);
+  });
+
+  it('@mentions the admins when someone redeems a reward', async () => {
+    const chat = await createAdminChat({ members: team });
+    await chat.ask(ann, '/admin rewards add "Team lunch" 1');
+    await chat.say(sarah, 'give Tom a burrito');
+    const replies = await chat.ask(tom, 'redeem Team lunch');
+    assert.equal(replies.length, 2);
+    assert.match(replies[1].text, /<at>Ann Smith<\/at>: Tom Jones is waiting for your decision on \*\*Team lunch\*\*/);
+    // Nobody else to ask when the only admin redeems
+    await chat.say(sarah, 'give Ann a burrito');
+    const own = await chat.ask(ann, 'redeem Team lunch');
+    assert.equal(own.length, 1);
+    assert.ok(own[0].card);
+  });
+
+  it('keeps awards that a redemption was paid with from being undone or revoked', async () => {
+    const chat = await createAdminChat({ members: team });
+    await chat.ask(ann, '/admin rewards add "Team lunch" 1');
+    await chat.say(sarah, 'give Tom a burrito');
+    await chat.ask(tom, 'redeem Team lunch');
+    assert.match((await chat.say(sarah, 'undo'))[0].text, /Tom Jones already spent these burritos on a reward/);
+    const id = (await chat.ask(ann, '/admin revoke'))[0].text.match(/• `([^`]+)` Sarah Lee → Tom Jones/)![1];
+    assert.match((await chat.ask(ann, `/admin revoke ${id}`))[0].text, /revoking it would leave their redemption uncovered/);
+    assert.match((await chat.ask(tom, 'my burritos'))[0].text, /received 1 burrito/);
+  });
+
+  it('records only the chat\'s values once they are set', async () => {
+    const chat = await createAdminChat({ members: team });
+    await chat.ask(ann, '/admin tags add #customer');
+    const replies = await chat.say(sarah, 'give Tom a burrito for the fix #customer #speed');
+    assert.match(replies[0].text, /Values: #customer/);
+    assert.match(replies[0].text, /#speed isn't one of this chat's values/);
+  });
+
+  it('switches the chat to another language', async () => {
+    const chat = await createAdminChat({ members: team });
+    assert.match((await chat.ask(ann, '/admin language'))[0].text, /each person's Teams language/);
+    assert.match((await chat.ask(ann, '/admin language klingon'))[0].text, /Please choose one of `en`, `de`, `et`/);
+    assert.match((await chat.ask(ann, '/admin language et'))[0].text, /eesti keeles/);
+    assert.match((await chat.say(sarah, 'give Tom a burrito'))[0].text, /Tom Jones sai 1 burrito, andja: Sarah Lee/);
+    assert.match((await chat.ask(ann, '/admin language auto'))[0].text, /each person's Teams language/);
+  });
+
+  it('points out unknown admin commands', async () => {
+    const chat = await createAdminChat({ members: team });
+    const replies = await chat.ask(ann, '/admin frobnicate');
+    assert.match(replies[0].text, /I don't know `\/admin frobnicate`/);
+    assert.match(replies[0].text, /\/admin report/);
+  });
+
+  it('imports history for a group chat from the admin\'s personal chat', async () => {
+    const chat = await createAdminChat({ members: team });
+    const personal = createTestChat({ type: 'personal', members: [ann], tenantId: chat.conversation.tenantId });
+    assert.match((await chat.ask(ann, '/admin import'))[0].text, /open a personal chat with me.*`\/admin import Test chat`/s);
+    assert.match((await personal.say(ann, '/admin import'))[0].text, new RegExp(`\\*\\*Test chat\\*\\* - \`/admin import ${chat.conversation.id}\``));
+    assert.match((await personal.say(ann, '/admin import Sales'))[0].text, /don't administer a chat called "Sales"/);
+    assert.match((await personal.say(sarah, '/admin import Test chat'))[0].text, /aren't an admin of any group chat/);
+
+    const csv = 'id,timestamp,giverId,giverName,recipientId,recipientName,reason\r\nold-1,2025-05-01T10:00:00Z,sarah,Sarah Lee,tom,Tom Jones,the migration\r\n';
+    const attachments = [{ contentType: 'text/csv', name: 'history.csv', contentUrl: `data:text/csv;base64,${Buffer.from(csv).toString('base64')}` }];
+    const replies = await personal.say(ann, '/admin import test chat', { attachments });
+    assert.match(replies[0].text, /Imported: 1/);
+    assert.match((await chat.ask(tom, 'my burritos'))[0].text, /received 1 burrito/);
+  });
+});
@@ -0,0 +1,181 @@
+import "./env";
+import assert from "node:assert/strict";
+import { Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { after, before, describe, it } from "node:test";
+import { HttpPlugin } from "@microsoft/teams.apps";
+import app from "../src/app/app";
+import { LeaderboardRow } from "../src/app/cards";
+import { getAwardsReport, getAwardTrend, getConversationSummary, getUserReport, parseRangeQuery, registerReportingApi } from "../src/app/reporting";
+import { BurritoAward, ConversationData, UserBurritoStats } from "../src/app/types";
+import { createAdminChat, createTestChat, TestUser } from "./driver";
+
+const ann: TestUser = { id: 'ann', name: 'Ann Smith' };
+const sarah: TestUser = { id: 'sarah', name: 'Sarah Lee' };
+const tom: TestUser = { id: 'tom', name: 'Tom Jones' };
+const team = [ann, sarah, tom];
+
+// Starts a server on a free port and returns its address
+const listen = async (server: Server): Promise<string> => {
+  await new Promise<void>(resolve => server.listen(0, resolve));
+  return `http://localhost:${(server.address() as AddressInfo).port}`;
+};
+
+// Response bodies as the routes build them, for the fields the tests read. Dates arrive as strings.
+interface ConversationList {
+  conversations: ReturnType<typeof getConversationSummary>[];
+}
+interface Leaderboard {
+  rows: LeaderboardRow[];
+}
+type AwardsReport = ReturnType<typeof getAwardsReport>;
+type UserReport = NonNullable<ReturnType<typeof getUserReport>>;
+
+// The reporting routes live on the app's own web server, which is started without connecting to Teams
+let baseUrl = '';
+const get = async <TBody = unknown>(path: string, token = 'test-token', base = baseUrl): Promise<{ status: number; body: TBody }> => {
+  const response = await fetch(`${base}${path}`, { headers: token ? { Authorization: `Bearer ${token}` } : {} });
+  const type = response.headers.get('content-type') || '';
+  const body: unknown = type.includes('json') ? await response.json() : await response.text();
+  return { status: response.status, body: body as TBody };
+};
+
+describe('reporting API', () => {
+  before(async () => {
+    baseUrl = await listen(app.http.server);
+  });
+
+  after(async () => {
+    await new Promise(resolve => app.http.server.close(resolve));
+  });
+
+  it('turns away requests without the token', async () => {
+    assert.equal((await get('/api/conversations', '')).status, 401);
+    assert.equal((await get('/api/conversations', 'guess')).status, 401);
+  });
+
+  it('shows people signed in through Teams only the chats they are an admin of in their tenant', async () => {
+    const createConversation = (conversationId: string, tenantId: string, adminAadObjectId: string): ConversationData => ({
+      conversationId,
+      tenantId,
+      admins: ['admin'],
+      roster: { members: [{ id: 'admin', name: 'Ann Smith', aadObjectId: adminAadObjectId }], lastRefreshed: new Date() },
+      burritoAwards: [],
+      userStats: new Map<string, UserBurritoStats>(),
+      settings: { timeZone: 'UTC' } as ConversationData['settings']
+    });
+    const conversations = [
+      createConversation('mine', 'contoso', 'ann-object-id'),
+      createConversation('theirs', 'contoso', 'tom-object-id'),
+      createConversation('elsewhere', 'fabrikam', 'ann-object-id')
+    ];
+    const http = new HttpPlugin();
+    registerReportingApi(http, {
+      validateUserToken: async token => token === 'ann-sso' ? { tenantId: 'contoso', aadObjectId: 'ann-object-id' } : undefined,
+      listConversations: async () => conversations,
+      getConversation: async conversationId => conversations.find(conversation => conversation.conversationId === conversationId)
+    });
+    const base = await listen(http.server);
+    try {
+      const { body: list } = await get<ConversationList>('/api/conversations', 'ann-sso', base);
+      assert.deepEqual(list.conversations.map(conversation => conversation.id), ['mine']);
+      assert.equal((await get('/api/conversations/mine/awards', 'ann-sso', base)).status, 200);
+      assert.equal((await get('/api/conversations/theirs/awards', 'ann-sso', base)).status, 403);
+      assert.equal((await get('/api/conversations/elsewhere/leaderboard', 'ann-sso', base)).status, 403);
+      assert.equal((await get('/api/conversations', 'forged', base)).status, 401);
+      // Without an API token configured, there is nothing for integrations to guess
+      assert.equal((await get('/api/conversations', 'test-token', base)).status, 401);
+    } finally {
+      await new Promise(resolve => http.server.close(resolve));
+    }
+  });
+
+  it('reports a conversation\'s leaderboard, awards and people', async () => {
+    const chat = createTestChat({ members: team });
+    await chat.say(ann, 'give Tom a burrito 🌯🌯 for the release #customer');
+    await chat.say(sarah, 'give Tom a burrito');
+    const id = encodeURIComponent(chat.conversation.id);
+
+    const { body: list } = await get<ConversationList>('/api/conversations');
+    assert.ok(list.conversations.some(conversation => conversation.id === chat.conversation.id && conversation.totalAwards === 3));
+
+    const { body: leaderboard } = await get<Leaderboard>(`/api/conversations/${id}/leaderboard?view=givers`);
+    assert.deepEqual(leaderboard.rows.map(row => [row.userName, row.given]), [['Ann Smith', 2], ['Sarah Lee', 1]]);
+
+    const { body: awards } = await get<AwardsReport>(`/api/conversations/${id}/awards?range=today`);
+    assert.equal(awards.total, 3);
+    assert.deepEqual(awards.topRecipients, [{ userId: 'tom', userName: 'Tom Jones', count: 3 }]);
+    assert.deepEqual(awards.tags, [{ tag: 'customer', count: 2 }]);
+    assert.deepEqual(awards.trend.points.map(point => point.count), [3]);
+    assert.equal(awards.awards[0].reason, 'the release #customer');
+
+    const { body: user } = await get<UserReport>(`/api/conversations/${id}/users/tom`);
+    assert.equal(user.received, 3);
+    assert.equal(user.recentAwards.length, 3);
+  });
+
+  it('filters awards by day and rejects invalid ranges', async () => {
+    const chat = createTestChat({ members: team });
+    await chat.say(ann, 'give Tom a burrito');
+    const id = encodeURIComponent(chat.conversation.id);
+    const { body: past } = await get<AwardsReport>(`/api/conversations/${id}/awards?from=2020-01-01&to=2020-01-31`);
+    assert.equal(past.total, 0);
+    assert.equal(past.trend.points.length, 31);
+    assert.equal((await get(`/api/conversations/${id}/awards?from=someday`)).status, 400);
+    assert.equal((await get(`/api/conversations/${id}/leaderboard?view=everyone`)).status, 400);
+  });
+
+  it('charts from the first award when only "to" is given, and caps long trends', () => {
+    const award = (timestamp: string) => ({ timestamp: new Date(timestamp), giverId: 'ann', recipientId: 'tom' } as BurritoAward);
+    const conversationData = {
+      burritoAwards: [award('2026-03-10T12:00:00Z'), award('2026-03-02T12:00:00Z')],
+      settings: { timeZone: 'UTC' }
+    } as ConversationData;
+    const now = new Date('2026-10-19T12:00:00Z');
+    const parsed = parseRangeQuery({ to: '2026-03-31' }, conversationData, now);
+    assert.ok('range' in parsed && parsed.range);
+    assert.equal(parsed.range.start.toISOString(), '2026-03-02T00:00:00.000Z');
+    const { period, points } = getAwardTrend(conversationData, parsed.range, now);
+    assert.equal(period, 'daily');
+    assert.deepEqual([points.length, points[0].key, points[0].count], [30, '2026-03-02', 1]);
+
+    const longAgo = parseRangeQuery({ from: '1900-01-01' }, conversationData, now);
+    assert.ok('range' in longAgo);
+    const trend = getAwardTrend(conversationData, longAgo.range, now);
+    assert.equal(trend.period, 'monthly');
+    assert.equal(trend.points.length, 120);
+    assert.equal(trend.points[trend.points.length - 1].key, '2026-10');
+  });
+
+  it('answers 404 for unknown conversations and people', async () => {
+    const chat = createTestChat({ members: team });
+    await chat.say(ann, 'give Tom a burrito');
+    assert.equal((await get('/api/conversations/nope/awards')).status, 404);
+    assert.equal((await get(`/api/conversations/${encodeURIComponent(chat.conversation.id)}/users/zoe`)).status, 404);
+  });
+
+  it('downloads /admin export files through signed, expiring links', async () => {
+    const chat = await createAdminChat({ members: team });
+    await chat.say(sarah, 'give Tom a burrito for the =SUM(A1) fix');
+    const replies = await chat.ask(ann, '/admin export csv today');
+    const link = new URL(replies[0].text.match(/\((https:\/\/burritos\.example\.com\/api\/exports\/[^)]+)\)/)![1]);
+    const file = await fetch(`${baseUrl}${link.pathname}${link.search}`);
+    assert.equal(file.status, 200);
+    assert.match(file.headers.get('content-disposition') || '', /attachment; filename="burritos-\d{4}-\d{2}-\d{2}\.csv"/);
+    const csv = Buffer.from(await file.arrayBuffer()).toString('utf8');
+    assert.match(csv, /^\uFEFFid,timestamp,giverId/);
+    assert.match(csv, /,sarah,Sarah Lee,tom,Tom Jones,the =SUM\(A1\) fix,/);
+
+    link.searchParams.set('format', 'json');
+    assert.equal((await get(`${link.pathname}${link.search}`, '')).status, 403);
+    link.searchParams.set('format', 'csv');
+    link.searchParams.set('expires', `${Date.now() - 1}`);
+    assert.equal((await get(`${link.pathname}${link.search}`, '')).status, 403);
+  });
+
+  it('serves the dashboard tab', async () => {
+    const { status, body } = await get<string>('/tabs/dashboard', '');
+    assert.equal(status, 200);
+    assert.match(body, /Burrito Dashboard/);
+  });
+});
@@ -0,0 +1,192 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createAdminChat, createTestChat, mention, TestUser } from "./driver";
+
+const ann: TestUser = { id: 'ann', name: 'Ann Smith' };
+const sarah: TestUser = { id: 'sarah', name: 'Sarah Lee', aadObjectId: 'sarah-aad' };
+const jose: TestUser = { id: 'jose', name: 'José García' };
+const jurgen: TestUser = { id: 'jurgen', name: 'Jürgen Müller' };
+const team = [ann, sarah, jose, jurgen];
+
+describe('awarding burritos', () => {
+  it('awards a burrito to someone named in the message', async () => {
+    const chat = createTestChat({ members: team });
+    const replies = await chat.say(ann, 'give Sarah a burrito');
+    assert.equal(replies.length, 1);
+    assert.match(replies[0].text, /Burrito awarded! Sarah Lee received 1 burrito from Ann Smith/);
+    assert.match(replies[0].text, /Sarah Lee now has 1 burrito!/);
+    assert.match(replies[0].text, /Welcome to the burrito club, Sarah Lee/);
+    assert.match(replies[0].text, /You have 4 burritos left to give today/);
+  });
+
+  it('awards a burrito to an @mentioned person with a reason', async () => {
+    const chat = createTestChat({ members: team });
+    const replies = await chat.say(ann, `give ${mention(sarah)} a burrito for great work`);
+    assert.match(replies[0].text, /Sarah Lee received 1 burrito from Ann Smith for: great work/);
+  });
+
+  it('takes the reason after "because" too', async () => {
+    const chat = createTestChat({ members: team });
+    const replies = await chat.say(ann, 'give Sarah a burrito because she fixed it');
+    assert.match(replies[0].text, /Sarah Lee received 1 burrito from Ann Smith for: she fixed it/);
+  });
+
+  it('awards everyone @mentioned or named in one message, with a single reply', async () => {
+    const chat = createTestChat({ members: team });
+    const replies = await chat.say(ann, `give ${mention(sarah)} ${mention(jose)} and Jürgen a burrito 🌯🌯 for the launch`);
+    assert.equal(replies.length, 1);
+    assert.match(replies[0].text, /Burritos awarded by Ann Smith for: the launch/);
+    assert.match(replies[0].text, /• Sarah Lee: 2 burritos \(2 in total\)/);
+    assert.match(replies[0].text, /• José García: 2 burritos/);
+    assert.match(replies[0].text, /• Jürgen Müller: 1 burrito \(1 in total\) ⚠️ Only 1 could be given because of the daily limit/);
+    assert.match(replies[0].text, /You have 0 burritos left to give today/);
+  });
+
+  it('splits typed names into people and drops the sender', async () => {
+    const chat = createTestChat({ members: team });
+    const replies = await chat.say(ann, 'Great work Sarah Jose and Ann! 🌯');
+    assert.match(replies[0].text, /• Sarah Lee: 1 burrito/);
+    assert.match(replies[0].text, /• José García: 1 burrito/);
+    assert.doesNotMatch(replies[0].text, /Ann Smith:/);
+    const mentions = await chat.say(ann, `${mention(sarah)} ${mention(ann)} 🌯`);
+    assert.match(mentions[0].text, /Sarah Lee received 1 burrito from Ann Smith/);
+    assert.match((await chat.say(ann, 'give Sarah and Zoe a burrito'))[0].text, /couldn't find anyone called "Zoe"/);
+  });
+
+  it('gives one burrito per 🌯 emoji', async () => {
+    const chat = createTestChat({ members: team });
+    const replies = await chat.say(ann, 'give Sarah a burrito 🌯🌯🌯');
+    assert.match(replies[0].text, /received 3 burritos/);
+  });
+
+  it('finds the recipient of an emoji-only award', async () => {
+    const chat = createTestChat({ members: team });
+    assert.match((await chat.say(ann, 'Great work Sarah! 🌯🌯'))[0].text, /Sarah Lee received 2 burritos/);
+    assert.match((await chat.say(ann, '🌯 for Sarah'))[0].text, /Sarah Lee received 1 burrito/);
+    assert.match((await chat.say(ann, 'Thanks Sarah for the review 🌯'))[0].text, /Sarah Lee received 1 burrito/);
+    assert.match((await chat.say(ann, `${mention(sarah)} 🌯`))[0].text, /Sarah Lee received 1 burrito/);
+  });
+
+  it('understands names with accents, typed with or without them', async () => {
+    const chat = createTestChat({ members: team });
+    assert.match((await chat.say(ann, 'Thanks José! 🌯'))[0].text, /José García received 1 burrito/);
+    assert.match((await chat.say(ann, 'Great job Jürgen 🌯🌯'))[0].text, /Jürgen Müller received 2 burritos/);
+    assert.match((await chat.say(ann, 'give jose garcia a burrito'))[0].text, /José García received 1 burrito/);
+  });
+
+  it('asks who was meant when a name matches several people', async () => {
+    const chat = createTestChat({ members: [ann, { id: 'john-a', name: 'John Adams' }, { id: 'john-b', name: 'John Brown' }] });
+    const replies = await chat.say(ann, 'give John a burrito');
+    assert.match(replies[0].text, /More than one person here matches "John"/);
+    assert.match(replies[0].text, /John Adams/);
+    assert.match(replies[0].text, /John Brown/);
+  });
+
+  it('says so when nobody matches the name', async () => {
+    const chat = createTestChat({ members: team });
+    const replies = await chat.say(ann, 'give Zoe a burrito');
+    assert.match(replies[0].text, /couldn't find anyone called "Zoe"/);
+  });
+
+  it('refuses self-awards', async () => {
+    const chat = createTestChat({ members: team });
+    const replies = await chat.say(ann, 'give Ann a burrito');
+    assert.match(replies[0].text, /can't give yourself a burrito/);
+  });
+
+  it('stops at the daily quota', async () => {
+    const chat = createTestChat({ members: team });
+    const first = await chat.say(ann, 'give Sarah a burrito 🌯🌯🌯🌯🌯🌯');
+    assert.match(first[0].text, /received 5 burritos/);
+    assert.match(first[0].text, /Only 5 could be given because of the daily limit/);
+    const second = await chat.say(ann, 'give José a burrito');
+    assert.match(second[0].text, /already given all 5 of today's burritos/);
+  });
+
+  it('takes back the burritos that were just given', async () => {
+    const chat = createTestChat({ members: team });
+    await chat.say(ann, 'give Sarah a burrito 🌯🌯');
+    const undone = await chat.say(ann, 'undo');
+    assert.match(undone[0].text, /Sarah Lee no longer has the 2 burritos you just gave/);
+    const mine = await chat.ask(sarah, 'my burritos');
+    assert.match(mine[0].text, /you have received 0 burritos/);
+    assert.match((await chat.say(ann, 'undo'))[0].text, /haven't given any burritos/);
+  });
+
+  it('takes back every burrito of a message to several people', async () => {
+    const chat = createTestChat({ members: team });
+    await chat.say(ann, 'give Sarah and José a burrito 🌯🌯');
+    const undone = await chat.say(ann, 'undo');
+    assert.match(undone[0].text, /Sarah Lee, José García no longer have the 4 burritos you just gave them/);
+    assert.match((await chat.ask(jose, 'my burritos'))[0].text, /you have received 0 burritos/);
+    assert.match((await chat.say(ann, 'undo'))[0].text, /haven't given any burritos/);
+  });
+
+  it('awards a burrito for a 🌯 reaction to someone\'s message', async () => {
+    const chat = createTestChat({ members: team });
+    await chat.say(sarah, 'I fixed the build', { id: 'message-1' });
+    const replies = await chat.react(ann, 'message-1');
+    assert.match(replies[0].text, /Sarah Lee received 1 burrito from Ann Smith/);
+    assert.deepEqual(await chat.react(ann, 'message-1', '👍'), []);
+  });
+
+  it('counts each person\'s 🌯 reaction to a message only once', async () => {
+    const chat = createTestChat({ members: team });
+    await chat.say(sarah, 'I fixed the build', { id: 'message-1' });
+    await chat.react(ann, 'message-1');
+    assert.deepEqual(await chat.react(ann, 'message-1'), []);
+    assert.match((await chat.react(jose, 'message-1'))[0].text, /Sarah Lee received 1 burrito from José García/);
+    assert.match((await chat.ask(sarah, 'my burritos'))[0].text, /received 2 burritos/);
+  });
+
+  it('awards burritos through the message action dialog', async () => {
+    const chat = createTestChat({ members: team });
+    const { response } = await chat.openMessageAction(ann, sarah);
+    assert.ok(response.task?.type === 'continue' && typeof response.task.value === 'object');
+    assert.equal(response.task.value.title, 'Give burrito');
+    const submitted = await chat.submitMessageAction(ann, sarah, { reason: 'the demo #teamwork', count: 2 });
+    assert.match(submitted.replies[0].text, /Sarah Lee received 2 burritos from Ann Smith for: the demo #teamwork/);
+    assert.match(submitted.replies[0].text, /Values: #teamwork/);
+  });
+
+  it('caps the burritos submitted through the dialog at what it offers', async () => {
+    const chat = await createAdminChat({ members: team });
+    await chat.ask(ann, '/admin quota off');
+    const submitted = await chat.submitMessageAction(ann, sarah, { count: 1e9 });
+    assert.match(submitted.replies[0].text, /Sarah Lee received 10 burritos from Ann Smith/);
+  });
+
+  it('only answers unrelated group chat messages that @mention it', async () => {
+    const chat = createTestChat({ members: team });
+    assert.deepEqual(await chat.say(ann, 'lunch anyone?'), []);
+    const replies = await chat.say(ann, '<at>Burrito Bot</at> what is this?');
+    assert.match(replies[0].text, /@mention me with "help"/);
+  });
+
+  it('runs only awards for group chat messages that don\'t @mention it', async () => {
+    const chat = createTestChat({ members: team });
+    assert.deepEqual(await chat.say(ann, 'my burritos'), []);
+    assert.match((await chat.ask(ann, 'my burritos'))[0].text, /haven't received any burritos/);
+    assert.match((await chat.say(ann, 'give Sarah a burrito'))[0].text, /Sarah Lee received 1 burrito/);
+  });
+
+  it('ignores 🌯 in chatter that names nobody, unless the message is for it', async () => {
+    const chat = createTestChat({ members: team });
+    assert.deepEqual(await chat.say(ann, 'Burritos for lunch anyone? 🌯'), []);
+    assert.match((await chat.ask(ann, 'Great work Zoe 🌯'))[0].text, /couldn't find anyone called "Zoe"/);
+  });
+
+  it('points to group chats for awards in a personal chat, which has nobody to award', async () => {
+    const chat = createTestChat({ type: 'personal', members: [ann] });
+    const replies = await chat.say(ann, 'give Sarah a burrito');
+    assert.match(replies[0].text, /Burritos are given in group chats and channels/);
+    assert.doesNotMatch(replies[0].text, /give\|award\|grant <recipient>/);
+    assert.doesNotMatch((await chat.say(ann, 'help'))[0].text, /give\|award\|grant <recipient>/);
+  });
+
+  it('replies in the sender\'s Teams language', async () => {
+    const chat = createTestChat({ members: team, locale: 'de-DE' });
+    const replies = await chat.say(ann, 'give Sarah a burrito 🌯🌯');
+    assert.match(replies[0].text, /Sarah Lee hat 2 Burritos von Ann Smith bekommen/);
+  });
+});
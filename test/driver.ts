@@ -0,0 +1,222 @@
+import "./env";
+import {
+  ActivityLike,
+  Attachment,
+  Client,
+  IConversationUpdateActivity,
+  IMessageActivity,
+  IMessageReactionActivity,
+  MessageReactionType,
+  MessagingExtensionAction,
+  Role,
+  toActivityParams
+} from "@microsoft/teams.api";
+import {
+  ActivityHandlerContext,
+  handleCardAction,
+  handleConversationUpdate,
+  handleMessage,
+  handleMessageActionOpen,
+  handleMessageActionSubmit,
+  handleMessageReaction
+} from "../src/app/app";
+import { GIVE_BURRITO_COMMAND } from "../src/app/reactions";
+
+// Drives the bot's activity handlers without Teams: each call builds a synthetic activity, passes it to the exported
+// handler that app.on registers for it and captures everything it sends back.
+
+export interface TestUser {
+  id: string;
+  name: string;
+  aadObjectId?: string;
+}
+
+// One message the bot sent: plain text, or an Adaptive Card with its text left empty
+export interface Reply {
+  text: string;
+  card?: unknown;
+  attachments: Attachment[];
+}
+
+// A message the bot sent proactively into another conversation, such as a personal notice to a recipient
+export interface Notice {
+  conversationId: string;
+  text: string;
+}
+
+export interface DispatchResult<TResponse = unknown> {
+  replies: Reply[];
+  response: TResponse; // What the handler returned, e.g. the card that replaces the clicked one
+}
+
+export interface TestChatOptions {
+  type?: 'personal' | 'groupChat' | 'channel';
+  members?: TestUser[];
+  locale?: string;
+  tenantId?: string;
+}
+
+type ActivityHandler<TActivity, TResponse> = (context: ActivityHandlerContext<TActivity>) => Promise<TResponse>;
+
+// The activity a handler takes
+type ActivityOf<THandler> = THandler extends ActivityHandler<infer TActivity, unknown> ? TActivity : never;
+
+export const BOT: TestUser = { id: 'bot', name: 'Burrito Bot' };
+
+// Writes an @mention into message text the way Teams does. The driver adds the matching mention entity.
+export const mention = (user: TestUser): string => `<at>${user.name}</at>`;
+
+const toReply = (sent: ActivityLike): Reply => {
+  const activity = toActivityParams(sent);
+  const attachments = ('attachments' in activity && activity.attachments) || [];
+  const card = attachments.find(attachment => attachment.contentType === 'application/vnd.microsoft.card.adaptive');
+  return { text: ('text' in activity && activity.text) || '', card: card?.content, attachments };
+};
+
+let nextId = 0;
+const uniqueId = (prefix: string): string => `${prefix}-${++nextId}`;
+
+export const createTestChat = (options: TestChatOptions = {}) => {
+  const type = options.type || 'groupChat';
+  const members = [...(options.members || [])];
+  const conversation = {
+    id: uniqueId('conversation'),
+    conversationType: type,
+    isGroup: type !== 'personal',
+    tenantId: options.tenantId || uniqueId('tenant'),
+    name: type === 'personal' ? undefined : 'Test chat'
+  };
+  const notices: Notice[] = [];
+  // Only what the roster lookups and personal notices use. A personal chat's ID is derived from the tenant and the
+  // person, as Teams returns the same one every time.
+  const api = {
+    conversations: {
+      members: () => ({ get: async () => members.map(member => ({ ...member, role: 'user' })) }),
+      create: async (params: { members: { id: string }[] }) => ({ id: `personal-${conversation.tenantId}-${params.members[0].id}` }),
+      activities: (conversationId: string) => ({
+        create: async (activity: ActivityLike) => {
+          notices.push({ conversationId, text: toReply(activity).text });
+          return { id: uniqueId('notice') };
+        }
+      })
+    }
+  } as unknown as Client;
+
+  // Calls the handler with the activity, the fake API and a send that records the replies
+  const dispatch = async <TActivity, TResponse>(
+    handler: ActivityHandler<TActivity, TResponse>,
+    activity: TActivity
+  ): Promise<DispatchResult<TResponse>> => {
+    const replies: Reply[] = [];
+    const send = async (sent: ActivityLike) => {
+      replies.push(toReply(sent));
+      return { id: uniqueId('reply') };
+    };
+    const response = await handler({ activity, api, send });
+    return { replies, response };
+  };
+
+  // The fields every activity from Teams has, plus the ones of its type. Tests only fill in what the handlers read.
+  const createActivity = <TActivity>(from: TestUser, fields: Partial<TActivity>): TActivity => ({
+    id: uniqueId('activity'),
+    channelId: 'msteams',
+    serviceUrl: 'https://smba.example.com/',
+    from: { ...from, role: 'user' },
+    recipient: { ...BOT, role: 'bot' },
+    conversation,
+    locale: options.locale,
+    ...fields
+  } as TActivity);
+
+  // Mention entities for every <at>Name</at> in the text that names a member or the bot
+  const findMentions = (text: string): IMessageActivity['entities'] => {
+    return [...members, BOT]
+      .filter(user => text.includes(mention(user)))
+      .map(user => ({ type: 'mention', text: mention(user), mentioned: { ...user, role: 'user' } }));
+  };
+
+  // The message action on a message written by `author`. Teams leaves out the preview fields the SDK's type requires.
+  const createMessageActionValue = (author: TestUser) => ({
+    commandId: GIVE_BURRITO_COMMAND,
+    commandContext: 'message',
+    messagePayload: { id: uniqueId('message'), from: { user: { id: author.aadObjectId || author.id, displayName: author.name } } }
+  } as MessagingExtensionAction);
+
+  return {
+    conversation,
+    members,
+    notices,
+
+    // A message typed by `from`. Pass an id to react to the message afterwards.
+    say: async (from: TestUser, text: string, fields: Partial<IMessageActivity> = {}): Promise<Reply[]> => {
+      const { replies } = await dispatch(handleMessage, createActivity<IMessageActivity>(from, { type: 'message', text, entities: findMentions(text), ...fields }));
+      return replies;
+    },
+
+    // A message that @mentions the bot, as group chats need for anything but awards
+    ask: async (from: TestUser, text: string, fields: Partial<IMessageActivity> = {}): Promise<Reply[]> => {
+      const addressed = `${mention(BOT)} ${text}`;
+      const { replies } = await dispatch(handleMessage, createActivity<IMessageActivity>(from, { type: 'message', text: addressed, entities: findMentions(addressed), ...fields }));
+      return replies;
+    },
+
+    // Adds an emoji reaction to an earlier message. Teams sends emoji IDs that the SDK's reaction type doesn't list.
+    react: async (from: TestUser, messageId: string, reaction = '🌯'): Promise<Reply[]> => {
+      const reactionsAdded = [{ type: reaction as MessageReactionType }];
+      const { replies } = await dispatch(handleMessageReaction, createActivity<IMessageReactionActivity>(from, { type: 'messageReaction', replyToId: messageId, reactionsAdded }));
+      return replies;
+    },
+
+    // Clicks an Action.Execute button on a card
+    clickCard: (from: TestUser, verb: string, data: Record<string, unknown> = {}) => {
+      return dispatch(handleCardAction, createActivity<ActivityOf<typeof handleCardAction>>(from, {
+        type: 'invoke',
+        name: 'adaptiveCard/action',
+        value: { action: { type: 'Action.Execute', verb, data } }
+      }));
+    },
+
+    // Opens the message action dialog for a message written by `author`
+    openMessageAction: (from: TestUser, author: TestUser) => {
+      return dispatch(handleMessageActionOpen, createActivity<ActivityOf<typeof handleMessageActionOpen>>(from, {
+        type: 'invoke',
+        name: 'composeExtension/fetchTask',
+        value: createMessageActionValue(author)
+      }));
+    },
+
+    // Submits the message action dialog for a message written by `author`
+    submitMessageAction: (from: TestUser, author: TestUser, data: Record<string, unknown>) => {
+      return dispatch(handleMessageActionSubmit, createActivity<ActivityOf<typeof handleMessageActionSubmit>>(from, {
+        type: 'invoke',
+        name: 'composeExtension/submitAction',
+        value: { ...createMessageActionValue(author), data }
+      }));
+    },
+
+    // `from` adds people (or the bot) to the chat
+    addMembers: async (from: TestUser, added: TestUser[]): Promise<Reply[]> => {
+      members.push(...added.filter(user => user.id !== BOT.id));
+      const membersAdded = added.map(user => ({ ...user, role: 'user' as Role }));
+      const { replies } = await dispatch(handleConversationUpdate, createActivity<IConversationUpdateActivity>(from, { type: 'conversationUpdate', membersAdded }));
+      return replies;
+    },
+
+    removeMembers: async (from: TestUser, removed: TestUser[]): Promise<Reply[]> => {
+      const removedIds = removed.map(user => user.id);
+      members.splice(0, members.length, ...members.filter(member => !removedIds.includes(member.id)));
+      const membersRemoved = removed.map(user => ({ ...user, role: 'user' as Role }));
+      const { replies } = await dispatch(handleConversationUpdate, createActivity<IConversationUpdateActivity>(from, { type: 'conversationUpdate', membersRemoved }));
+      return replies;
+    }
+  };
+};
+
+export type TestChat = ReturnType<typeof createTestChat>;
+
+// Starts a group chat whose first member is already its admin
+export const createAdminChat = async (options: TestChatOptions & { members: TestUser[] }): Promise<TestChat> => {
+  const chat = createTestChat(options);
+  await chat.ask(options.members[0], '/makeadmin');
+  return chat;
+};
@@ -0,0 +1,9 @@
+// Loaded before the app, whose configuration is read from the environment when it is first imported.
+// Tests keep their data in memory, assume the default quota and time zone, use the offline intent
+// model, a known reporting API token and an address for download links.
+process.env.BURRITO_STORAGE = 'memory';
+process.env.BURRITO_DAILY_QUOTA = '5';
+process.env.BURRITO_TIMEZONE = 'UTC';
+process.env.BURRITO_INTENT_MODEL = 'stub';
+process.env.BURRITO_API_TOKEN = 'test-token';
+process.env.BOT_ENDPOINT = 'https://burritos.example.com';
@@ -0,0 +1,42 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import de from "../src/app/locales/de.json";
+import en from "../src/app/locales/en.json";
+import et from "../src/app/locales/et.json";
+import { createTranslator, findLocale, resolveLocale } from "../src/app/i18n";
+
+type Messages = Record<string, string | Record<string, string>>;
+
+// Every placeholder a message uses, across all of its plural forms
+const getPlaceholders = (message: string | Record<string, string>): string[] => {
+  const texts = typeof message === 'string' ? [message] : Object.values(message);
+  return Array.from(new Set(texts.flatMap(text => text.match(/\{\w+\}/g) || []))).sort();
+};
+
+describe('translations', () => {
+  for (const [locale, messages] of Object.entries({ de, et }) as [string, Messages][]) {
+    it(`${locale} has exactly the English messages, with the same placeholders`, () => {
+      assert.deepEqual(Object.keys(messages).sort(), Object.keys(en).sort());
+      for (const [key, message] of Object.entries(en as Messages)) {
+        assert.equal(typeof messages[key], typeof message, key);
+        // Plural messages may leave {count} out of the "one" form ("einen Burrito"), so compare the union
+        assert.deepEqual(getPlaceholders(messages[key]), getPlaceholders(message), key);
+      }
+    });
+  }
+
+  it('picks plural forms and fills in placeholders', () => {
+    const t = createTranslator('en');
+    assert.equal(t('burritos', { count: 1 }), '1 burrito');
+    assert.equal(t('burritos', { count: 3 }), '3 burritos');
+    assert.equal(t('admins.added', { name: 'Ann' }), '👑 Ann is now an admin!');
+  });
+
+  it('matches Teams locales to the supported languages', () => {
+    assert.equal(findLocale('de-AT'), 'de');
+    assert.equal(findLocale('et_EE'), 'et');
+    assert.equal(findLocale('fr-FR'), undefined);
+    assert.equal(resolveLocale(undefined, 'fr-FR'), 'en');
+    assert.equal(resolveLocale('et', 'de-DE'), 'et');
+  });
+});
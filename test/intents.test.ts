@@ -0,0 +1,57 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createModelClient, formatIntentCommand, parseIntent } from "../src/app/intents";
+import { createAdminChat, createTestChat, TestUser } from "./driver";
+
+const ann: TestUser = { id: 'ann', name: 'Ann Smith' };
+const priya: TestUser = { id: 'priya', name: 'Priya Patel' };
+const tom: TestUser = { id: 'tom', name: 'Tom Jones' };
+const team = [ann, priya, tom];
+
+describe('natural-language intents', () => {
+  it('awards burritos asked for in plain words, through the usual award command', async () => {
+    const chat = createTestChat({ members: team });
+    const replies = await chat.say(ann, '<at>Burrito Bot</at> award 2 burritos to Priya for the release');
+    assert.match(replies[0].text, /I took that as `give Priya a burrito 🌯🌯 for the release`/);
+    assert.match(replies[1].text, /Priya Patel received 2 burritos from Ann Smith for: the release/);
+  });
+
+  it('only reads group chat messages that @mention the bot', async () => {
+    const chat = createTestChat({ members: team });
+    assert.deepEqual(await chat.say(ann, 'award 2 burritos to Priya'), []);
+    const replies = await chat.say(ann, '<at>Burrito Bot</at> award 2 burritos to Priya');
+    assert.match(replies[1].text, /Priya Patel received 2 burritos/);
+  });
+
+  it('keeps admin commands to admins', async () => {
+    const chat = await createAdminChat({ members: team });
+    await chat.say(priya, 'give Tom a burrito');
+    const denied = await chat.say(priya, '<at>Burrito Bot</at> who gave the most last month?');
+    assert.match(denied[1].text, /not an admin/);
+    const allowed = await chat.say(ann, '<at>Burrito Bot</at> who gave the most this month?');
+    assert.match(allowed[0].text, /`\/admin report this month`/);
+    assert.match(JSON.stringify(allowed[1].card), /Priya Patel/);
+  });
+
+  it('falls back to the usual reply when the model finds nothing to do', async () => {
+    const chat = createTestChat({ members: team });
+    const replies = await chat.say(ann, '<at>Burrito Bot</at> what is this?');
+    assert.equal(replies.length, 1);
+    assert.match(replies[0].text, /@mention me with "help"/);
+  });
+
+  it('ignores malformed model output', () => {
+    assert.deepEqual(parseIntent('Sure! Priya gets two.'), { action: 'none' });
+    assert.deepEqual(parseIntent('{"action": "award", "count": 2}'), { action: 'none' });
+    assert.deepEqual(parseIntent('{"action": "delete everything"}'), { action: 'none' });
+    const award = parseIntent('```json\n{"action": "award", "recipient": "Priya 🌯🌯🌯", "count": 500}\n```');
+    assert.equal(formatIntentCommand(award), `give Priya a burrito ${'🌯'.repeat(50)}`);
+  });
+
+  it('is only enabled when a model is configured', () => {
+    assert.equal(createModelClient(undefined), undefined);
+    assert.ok(createModelClient('stub'));
+    assert.throws(() => createModelClient('openai', {}), /OPENAI_API_KEY/);
+    assert.throws(() => createModelClient('clippy'), /Unknown intent model/);
+  });
+});
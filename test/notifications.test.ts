@@ -0,0 +1,97 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { getMessageLink, getReceivedAwards, setNotificationMode } from "../src/app/notifications";
+import { BurritoAward, ConversationData } from "../src/app/types";
+import { createTestChat, TestUser } from "./driver";
+
+const ann: TestUser = { id: 'ann', name: 'Ann Smith' };
+const sarah: TestUser = { id: 'sarah', name: 'Sarah Lee' };
+const tom: TestUser = { id: 'tom', name: 'Tom Jones' };
+const team = [ann, sarah, tom];
+
+// A group chat and Tom's personal chat with the bot, in the same tenant
+const createChats = () => {
+  const chat = createTestChat({ members: team });
+  const personal = createTestChat({ type: 'personal', members: [tom], tenantId: chat.conversation.tenantId });
+  return { chat, personal };
+};
+
+describe('recipient notifications', () => {
+  it('tells recipients in a personal chat who gave them burritos, why, and where', async () => {
+    const chat = createTestChat({ members: team });
+    await chat.say(ann, 'give Tom a burrito 🌯🌯 for the release', { id: 'message-1' });
+    assert.equal(chat.notices.length, 1);
+    const [notice] = chat.notices;
+    assert.equal(notice.conversationId, `personal-${chat.conversation.tenantId}-tom`);
+    assert.match(notice.text, /Ann Smith gave you 2 burritos in \*\*Test chat\*\*/);
+    assert.match(notice.text, /For: the release/);
+    assert.ok(notice.text.includes(`https://teams.microsoft.com/l/message/${encodeURIComponent(chat.conversation.id)}/message-1?`));
+  });
+
+  it('links reaction awards to the message that was reacted to', async () => {
+    const chat = createTestChat({ members: team });
+    await chat.say(tom, 'Shipped the fix', { id: 'message-2' });
+    await chat.react(ann, 'message-2');
+    assert.match(chat.notices[0].text, /Ann Smith gave you a burrito/);
+    assert.match(chat.notices[0].text, /\/message-2\?/);
+  });
+
+  it('follows the preferences set in the personal chat', async () => {
+    const { chat, personal } = createChats();
+    const off = await personal.say(tom, 'notifications off');
+    assert.match(off[0].text, /won't message you/);
+    await chat.say(ann, 'give Tom a burrito');
+    assert.equal(chat.notices.length, 0);
+    assert.match((await personal.say(tom, 'notifications'))[0].text, /\*\*off\*\*/);
+
+    await personal.say(tom, 'notifications daily digest');
+    await chat.say(sarah, 'give Tom a burrito');
+    assert.equal(chat.notices.length, 0);
+
+    await personal.say(tom, 'notifications instant');
+    await chat.say(sarah, 'give Tom and Ann a burrito');
+    assert.deepEqual(chat.notices.map(notice => notice.conversationId), [personal.conversation.id, `personal-${chat.conversation.tenantId}-ann`]);
+  });
+
+  it('rejects unknown notification modes', async () => {
+    const { personal } = createChats();
+    const replies = await personal.say(tom, 'notifications loud');
+    assert.match(replies[0].text, /Choose `notifications off`/);
+  });
+
+  it('collects the burritos for a daily notification, grouped by message', () => {
+    const at = (time: string) => new Date(`2026-10-19T${time}:00Z`);
+    const award = (id: string, giverName: string, timestamp: Date, fields: Partial<BurritoAward> = {}): BurritoAward => ({
+      id, recipientId: 'tom', recipientName: 'Tom Jones', giverId: giverName, giverName, conversationId: 'c', timestamp, ...fields
+    });
+    const conversation = {
+      conversationId: 'c',
+      conversationName: 'Team',
+      burritoAwards: [
+        award('1', 'Ann', at('08:00')),
+        award('2', 'Ann', at('10:00'), { reason: 'the release' }),
+        award('3', 'Ann', at('10:00'), { reason: 'the release' }),
+        award('4', 'Sarah', at('11:00'), { revokedAt: at('11:01') }),
+        award('5', 'Sarah', at('12:00'), { recipientId: 'ann' })
+      ]
+    } as ConversationData;
+    const received = getReceivedAwards([conversation], 'tom', at('09:00'), at('13:00'));
+    assert.deepEqual(received.map(group => [group.giverName, group.count, group.reason]), [['Ann', 2, 'the release']]);
+  });
+
+  it('schedules daily notifications only from when they were chosen', () => {
+    const conversation = { conversationId: 'p', burritoAwards: [] } as unknown as ConversationData;
+    const now = new Date('2026-10-19T12:00:00Z');
+    const preferences = setNotificationMode(conversation, 'tom', 'daily', 'de', now);
+    assert.deepEqual(preferences.digest, { frequency: 'daily', hour: 9, minute: 0, createdAt: now });
+    assert.equal(setNotificationMode(conversation, 'tom', 'off').digest, undefined);
+    assert.equal(conversation.userPreferences?.get('tom')?.locale, 'de');
+  });
+
+  it('links channel replies through their thread', () => {
+    assert.equal(
+      getMessageLink('19:abc@thread.tacv2;messageid=100', '200', 'tenant'),
+      'https://teams.microsoft.com/l/message/19%3Aabc%40thread.tacv2/200?tenantId=tenant&parentMessageId=100'
+    );
+  });
+});
@@ -0,0 +1,39 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { BOT, createTestChat, TestUser } from "./driver";
+
+const ann: TestUser = { id: 'ann', name: 'Ann Smith' };
+const sarah: TestUser = { id: 'sarah', name: 'Sarah Lee' };
+const zoe: TestUser = { id: 'zoe', name: 'Zoe Park' };
+
+describe('conversationUpdate onboarding', () => {
+  it('welcomes the group and makes whoever added the bot its admin', async () => {
+    const chat = createTestChat({ members: [ann, sarah] });
+    const replies = await chat.addMembers(ann, [BOT]);
+    assert.match(replies[0].text, /Welcome to Burrito Bot/);
+    assert.match(replies[0].text, /give\|award\|grant/);
+    assert.match((await chat.ask(ann, '/admin list'))[0].text, /Admins \(1\)/);
+    assert.match((await chat.ask(sarah, '/admin list'))[0].text, /not an admin/);
+  });
+
+  it('welcomes the group in the Teams language of whoever added the bot', async () => {
+    const chat = createTestChat({ members: [ann, sarah], locale: 'et-EE' });
+    const replies = await chat.addMembers(ann, [BOT]);
+    assert.match(replies[0].text, /Tere tulemast/);
+  });
+
+  it('stays quiet when installed in a personal chat', async () => {
+    const chat = createTestChat({ type: 'personal', members: [ann] });
+    assert.deepEqual(await chat.addMembers(ann, [BOT]), []);
+  });
+
+  it('keeps the roster current as people join and leave', async () => {
+    const chat = createTestChat({ members: [ann, sarah] });
+    await chat.addMembers(ann, [BOT]);
+    assert.match((await chat.say(ann, 'give Zoe a burrito'))[0].text, /couldn't find anyone called "Zoe"/);
+    await chat.addMembers(ann, [zoe]);
+    assert.match((await chat.say(ann, 'give Zoe a burrito'))[0].text, /Zoe Park received 1 burrito/);
+    await chat.removeMembers(ann, [zoe]);
+    assert.match((await chat.say(ann, 'give Zoe a burrito'))[0].text, /couldn't find anyone called "Zoe"/);
+  });
+});
@@ -0,0 +1,89 @@
+import "./env";
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { LEADERBOARD_VERB, REPORT_VERB } from "../src/app/cards";
+import config from "../src/config";
+import { createAdminChat, createTestChat, TestUser } from "./driver";
+
+const ann: TestUser = { id: 'ann', name: 'Ann Smith' };
+const sarah: TestUser = { id: 'sarah', name: 'Sarah Lee' };
+const tom: TestUser = { id: 'tom', name: 'Tom Jones' };
+const team = [ann, sarah, tom];
+
+// Card contents are checked as JSON, which is what Teams renders
+const cardText = (card: unknown): string => JSON.stringify(card);
+
+describe('reports and leaderboards', () => {
+  it('posts the leaderboard as a card, ranked by burritos received', async () => {
+    const chat = createTestChat({ members: team });
+    await chat.say(ann, 'give Tom a burrito 🌯🌯');
+    await chat.say(ann, 'give Sarah a burrito');
+    const replies = await chat.ask(sarah, 'burrito leaderboard');
+    const card = cardText(replies[0].card);
+    assert.match(card, /Burrito Leaderboard/);
+    assert.ok(card.indexOf('Tom Jones') < card.indexOf('Sarah Lee'));
+  });
+
+  it('says when the leaderboard is empty', async () => {
+    const chat = createTestChat({ members: team });
+    assert.match((await chat.ask(ann, 'leaderboard'))[0].text, /No burritos have been awarded yet/);
+  });
+
+  it('switches the leaderboard card to givers in place', async () => {
+    const chat = createTestChat({ members: team });
+    await chat.say(ann, 'give Tom a burrito');
+    const { response } = await chat.clickCard(sarah, LEADERBOARD_VERB, { view: 'givers', period: 'weekly' });
+    assert.equal(response.type, 'application/vnd.microsoft.card.adaptive');
+    assert.match(cardText(response.value), /Most Generous Givers/);
+    assert.match(cardText(response.value), /Ann Smith/);
+  });
+
+  it('generates a report for admins', async () => {
+    const chat = await createAdminChat({ members: team });
+    await chat.say(sarah, 'give Tom a burrito for the release #customer');
+    const replies = await chat.ask(ann, '/admin report weekly');
+    const card = cardText(replies[0].card);
+    assert.match(card, /Weekly Burrito Report/);
+    assert.match(card, /Tom Jones/);
+    assert.match(card, /#customer/);
+    assert.match((await chat.ask(ann, '/admin report whenever'))[0].text, /specify a valid period/);
+  });
+
+  it('keeps report buttons to admins', async () => {
+    const chat = await createAdminChat({ members: team });
+    const denied = await chat.clickCard(sarah, REPORT_VERB, { period: 'monthly' });
+    assert.ok(denied.response.type === 'application/vnd.microsoft.activity.message');
+    assert.match(denied.response.value, /Only admins can view burrito reports/);
+    const allowed = await chat.clickCard(ann, REPORT_VERB, { period: 'monthly' });
+    assert.match(cardText(allowed.response.value), /Monthly Burrito Report/);
+  });
+
+  it('exports the ledger as a download link', async () => {
+    const chat = await createAdminChat({ members: team });
+    await chat.say(sarah, 'give Tom a burrito 🌯🌯');
+    const replies = await chat.ask(ann, '/admin export csv');
+    assert.match(replies[0].text, /Exported 2 burrito awards \(all\) as CSV/);
+    assert.match(replies[0].text, /\[Download the file\]\(https:\/\/burritos\.example\.com\/api\/exports\/.+&signature=[\w-]+\) - the link works for 60 minutes/);
+  });
+
+  it('asks for the bot\'s address instead of exporting without one', async () => {
+    const chat = await createAdminChat({ members: team });
+    const { BotEndpoint } = config;
+    config.BotEndpoint = undefined;
+    try {
+      assert.match((await chat.ask(ann, '/admin export csv'))[0].text, /set `BOT_ENDPOINT`/);
+    } finally {
+      config.BotEndpoint = BotEndpoint;
+    }
+  });
+
+  it('counts every chat in the organization leaderboard', async () => {
+    const first = createTestChat({ members: team, tenantId: 'contoso' });
+    const second = createTestChat({ members: team, tenantId: 'contoso' });
+    await first.say(ann, 'give Tom a burrito');
+    await second.say(sarah, 'give Tom a burrito');
+    const replies = await first.ask(ann, 'org leaderboard');
+    assert.match(cardText(replies[0].card), /Organization Leaderboard/);
+    assert.match(cardText(replies[0].card), /across 2 chats/);
+  });
+});
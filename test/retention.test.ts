@@ -0,0 +1,187 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ANONYMISED_USER_ID, rebuildUserStats } from "../src/app/ledger";
+import { applyRetention, ERASED_USER_NAME, forgetUser, parseRetentionDays } from "../src/app/retention";
+import { getSpendableBalance } from "../src/app/rewards";
+import { BurritoAward, ConversationData, UserBurritoStats } from "../src/app/types";
+import { createAdminChat, createTestChat, mention, TestUser } from "./driver";
+
+const ann: TestUser = { id: 'ann', name: 'Ann Smith' };
+const sarah: TestUser = { id: 'sarah', name: 'Sarah Lee' };
+const tom: TestUser = { id: 'tom', name: 'Tom Jones' };
+const team = [ann, sarah, tom];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const createConversation = (awards: Partial<BurritoAward>[]): ConversationData => ({
+  conversationId: 'c',
+  admins: ['ann', 'tom'],
+  burritoAwards: awards.map((award, index) => ({
+    id: `${index}`,
+    recipientId: 'tom',
+    recipientName: 'Tom Jones',
+    giverId: 'sarah',
+    giverName: 'Sarah Lee',
+    conversationId: 'c',
+    timestamp: new Date('2026-01-01T12:00:00Z'),
+    ...award
+  })),
+  userStats: new Map<string, UserBurritoStats>([
+    ['tom', { userId: 'tom', userName: 'Tom Jones', totalReceived: 2, totalGiven: 1, lastUpdated: new Date() }],
+    ['sarah', { userId: 'sarah', userName: 'Sarah Lee', totalReceived: 1, totalGiven: 2, lastUpdated: new Date() }]
+  ]),
+  settings: { retentionDays: 30 } as ConversationData['settings']
+});
+
+describe('data retention and erasure', () => {
+  it('reads retention periods', () => {
+    assert.equal(parseRetentionDays('365d'), 365);
+    assert.equal(parseRetentionDays('90 days'), 90);
+    assert.equal(parseRetentionDays('off'), 0);
+    assert.equal(parseRetentionDays('0d'), undefined);
+    assert.equal(parseRetentionDays('a year'), undefined);
+  });
+
+  it('anonymises awards once they outlive the retention period, keeping everything counted', () => {
+    const conversationData = createConversation([
+      { reason: 'the release', tags: ['ownership'] },
+      { reason: 'last week', timestamp: new Date('2026-01-25T12:00:00Z') },
+      { giverId: 'tom', giverName: 'Tom Jones', recipientId: 'sarah', recipientName: 'Sarah Lee' }
+    ]);
+    const now = new Date(new Date('2026-01-01T12:00:00Z').getTime() + 31 * DAY_MS);
+    assert.equal(applyRetention(conversationData, now), 2);
+    assert.equal(applyRetention(conversationData, now), 0);
+    const [old, recent] = conversationData.burritoAwards;
+    assert.deepEqual([old.giverId, old.recipientId, old.reason, old.tags], [ANONYMISED_USER_ID, ANONYMISED_USER_ID, undefined, ['ownership']]);
+    assert.ok(!JSON.stringify(conversationData.burritoAwards.filter(award => award !== recent)).includes('Tom'));
+    assert.deepEqual([recent.recipientName, recent.reason], ['Tom Jones', 'last week']);
+
+    // Totals and balances stay the same, even when the stats are rebuilt from the ledger
+    const totals = () => ['tom', 'sarah'].map(userId => {
+      const stats = conversationData.userStats.get(userId)!;
+      return [stats.totalReceived, stats.totalGiven, getSpendableBalance(conversationData, userId)];
+    });
+    assert.deepEqual(totals(), [[2, 1, 2], [1, 2, 1]]);
+    rebuildUserStats(conversationData);
+    assert.deepEqual(totals(), [[2, 1, 2], [1, 2, 1]]);
+    conversationData.settings.retentionDays = 0;
+    assert.equal(applyRetention(conversationData, new Date('2030-01-01T00:00:00Z')), 0);
+  });
+
+  it('pseudonymises a person everywhere and records the erasure', () => {
+    const conversationData = createConversation([
+      { reason: 'thanks Tom' },
+      { giverId: 'tom', giverName: 'Tom Jones', recipientId: 'sarah', recipientName: 'Sarah Lee', reason: 'the review' },
+      { recipientId: 'ann', recipientName: 'Ann Smith', reason: 'the docs' }
+    ]);
+    const now = new Date('2026-10-19T12:00:00Z');
+    const result = forgetUser([conversationData], 'tom', 'ann', 'Ann Smith', now);
+    assert.ok(result.status === 'erased');
+    const { erasure } = result;
+    assert.equal(erasure.awards, 2);
+    assert.deepEqual(conversationData.erasures, [{ pseudonymId: erasure.pseudonymId, erasedAt: now, erasedById: 'ann', erasedByName: 'Ann Smith', awards: 2 }]);
+    assert.ok(!JSON.stringify(conversationData.burritoAwards).includes('Tom'));
+    assert.deepEqual(conversationData.burritoAwards.map(award => award.reason), [undefined, undefined, 'the docs']);
+    assert.equal(conversationData.userStats.has('tom'), false);
+    const stats = conversationData.userStats.get(erasure.pseudonymId)!;
+    assert.deepEqual([stats.userId, stats.userName, stats.totalReceived, stats.totalGiven], [erasure.pseudonymId, ERASED_USER_NAME, 2, 1]);
+    assert.deepEqual(conversationData.admins, ['ann']);
+    assert.deepEqual(forgetUser([conversationData], 'tom', 'ann', 'Ann Smith'), { status: 'notFound' });
+  });
+
+  it('refuses to erase the only admin, who nobody could replace', () => {
+    const conversationData = createConversation([{ giverId: 'ann', giverName: 'Ann Smith' }]);
+    conversationData.admins = ['ann'];
+    assert.deepEqual(forgetUser([conversationData], 'ann', 'ann', 'Ann Smith'), { status: 'lastAdmin', conversation: conversationData });
+    assert.equal(conversationData.burritoAwards[0].giverName, 'Ann Smith');
+    assert.deepEqual(conversationData.admins, ['ann']);
+  });
+
+  it('sets the retention period with an admin command', async () => {
+    const chat = await createAdminChat({ members: team });
+    assert.match((await chat.ask(ann, '/admin retention'))[0].text, /kept as they are forever/);
+    const replies = await chat.ask(ann, '/admin retention 365d');
+    assert.match(replies[0].text, /more than 365 days old/);
+    assert.match(replies[0].text, /Anonymised 0 older awards/);
+    assert.match((await chat.ask(ann, '/admin retention'))[0].text, /more than 365 days old/);
+    assert.match((await chat.ask(ann, '/admin retention soon'))[0].text, /in days/);
+  });
+
+  it('leaves anonymised awards out of the rankings in reports', async context => {
+    context.mock.timers.enable({ apis: ['Date'], now: new Date('2025-03-01T12:00:00Z') });
+    const chat = await createAdminChat({ members: team });
+    await chat.say(sarah, 'give Tom a burrito 🌯🌯');
+    context.mock.timers.setTime(new Date('2026-10-19T12:00:00Z').getTime());
+    await chat.ask(ann, '/admin retention 30d');
+    const report = JSON.stringify((await chat.ask(ann, '/admin report 2025'))[0].card);
+    assert.match(report, /Total Burritos Awarded: 2/);
+    assert.doesNotMatch(report, /Anonymised|Top Burrito Recipients|Generous Burrito Givers/);
+  });
+
+  it('refuses to revoke anonymised awards, whose totals can no longer be corrected', async context => {
+    context.mock.timers.enable({ apis: ['Date'], now: new Date('2025-03-01T12:00:00Z') });
+    const chat = await createAdminChat({ members: team });
+    await chat.say(sarah, 'give Tom a burrito');
+    const [, id] = (await chat.ask(ann, '/admin revoke'))[0].text.match(/`([^`]+)` Sarah Lee → Tom Jones/)!;
+    context.mock.timers.setTime(new Date('2026-10-19T12:00:00Z').getTime());
+    await chat.ask(ann, '/admin retention 30d');
+    assert.match((await chat.ask(ann, '/admin revoke'))[0].text, /no burrito awards to revoke/);
+    assert.match((await chat.ask(ann, `/admin revoke ${id}`))[0].text, /was anonymised/);
+    assert.match((await chat.ask(tom, 'my burritos'))[0].text, /received 1 burrito/);
+  });
+
+  it('forgets a person on request, keeping everyone else\'s totals', async () => {
+    const chat = await createAdminChat({ members: team });
+    await chat.say(sarah, 'give Tom a burrito for the release');
+    await chat.say(tom, 'give Sarah a burrito');
+    const replies = await chat.ask(ann, `/admin forget ${mention(tom)}`);
+    assert.match(replies[0].text, /Erased Tom Jones from every chat you administer\. 2 awards now show them as "Erased user"/);
+    assert.match((await chat.ask(tom, 'my burritos'))[0].text, /haven't received any burritos/);
+    assert.match((await chat.ask(sarah, 'my burritos'))[0].text, /received 1 burrito and given 1 burrito/);
+    assert.match((await chat.ask(ann, '/admin forget'))[0].text, /Erasures so far:.*by Ann Smith: now `erased-\w+`, 2 awards/s);
+    assert.match((await chat.ask(ann, '/admin forget Zoe'))[0].text, /no burrito data about Zoe/);
+    assert.match((await chat.ask(ann, `/admin forget ${mention(ann)}`))[0].text, /Ann Smith is this chat's only admin/);
+  });
+
+  it('forgets a person in every chat of the organisation, including their preferences', async () => {
+    const chat = await createAdminChat({ members: team });
+    const { tenantId } = chat.conversation;
+    const other = await createAdminChat({ members: [sarah, tom, ann], tenantId });
+    await other.ask(sarah, `/admin add ${mention(ann)}`);
+    const personal = createTestChat({ type: 'personal', members: [tom], tenantId });
+    await personal.say(tom, 'notifications off');
+    await other.say(tom, 'Shipped the fix', { id: 'message-1' });
+    await other.say(sarah, 'give Tom a burrito for the fix');
+    await chat.say(sarah, 'give Tom a burrito');
+
+    assert.match((await chat.ask(ann, '/admin forget Tom Jones'))[0].text, /Erased Tom Jones from every chat you administer\. 2 awards/);
+    assert.match((await other.ask(tom, 'my burritos'))[0].text, /haven't received any burritos/);
+    assert.match((await other.ask(sarah, '/admin forget'))[0].text, /by Ann Smith: now `erased-\w+`, 2 awards/);
+    assert.doesNotMatch((await personal.say(tom, 'notifications'))[0].text, /\*\*off\*\*/);
+    // Their messages are no longer remembered, so reacting to them awards nothing
+    await other.react(sarah, 'message-1');
+    assert.match((await other.ask(tom, 'my burritos'))[0].text, /haven't received any burritos/);
+  });
+
+  it('only erases people from chats the caller administers, never from a personal chat', async () => {
+    const chat = await createAdminChat({ members: team });
+    const { tenantId } = chat.conversation;
+    await chat.say(ann, 'give Sarah a burrito for the review');
+    const mallory: TestUser = { id: 'mallory', name: 'Mallory Moe' };
+    const personal = createTestChat({ type: 'personal', members: [mallory], tenantId });
+    await personal.ask(mallory, '/makeadmin');
+    assert.match((await personal.ask(mallory, '/admin forget Sarah Lee'))[0].text, /only works in a group chat or channel you administer/);
+    const own = await createAdminChat({ members: [mallory], tenantId });
+    assert.match((await own.ask(mallory, '/admin forget Sarah Lee'))[0].text, /no burrito data about Sarah Lee in any chat you administer/);
+    assert.match((await chat.ask(sarah, 'my burritos'))[0].text, /received 1 burrito/);
+  });
+
+  it('refuses to erase the only admin of another chat in the organisation', async () => {
+    const chat = await createAdminChat({ members: team });
+    await chat.ask(ann, `/admin add ${mention(tom)}`);
+    const other = await createAdminChat({ members: [ann, sarah], tenantId: chat.conversation.tenantId });
+    await other.say(sarah, 'give Ann a burrito');
+    assert.match((await chat.ask(ann, `/admin forget ${mention(ann)}`))[0].text, /Ann Smith is the only admin of Test chat/);
+    assert.match((await other.ask(ann, 'my burritos'))[0].text, /received 1 burrito/);
+  });
+});
@@ -0,0 +1,70 @@
+import assert from "node:assert/strict";
+import { promises as fs } from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { after, describe, it } from "node:test";
+import { getMessageAuthor, rememberMessageAuthor } from "../src/app/reactions";
+import { FileConversationStore, getDefaultDataDirectory } from "../src/app/storage";
+import { ConversationData, ConversationSettings, UserBurritoStats } from "../src/app/types";
+
+const createData = (conversationId: string): ConversationData => ({
+  conversationId,
+  admins: [],
+  burritoAwards: [],
+  userStats: new Map<string, UserBurritoStats>(),
+  settings: { dailyQuota: 5 } as ConversationSettings
+});
+
+describe('file storage', () => {
+  const directories: string[] = [];
+  const createDirectory = async (): Promise<string> => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'burrito-store-'));
+    directories.push(directory);
+    return directory;
+  };
+
+  after(async () => {
+    await Promise.all(directories.map(directory => fs.rm(directory, { recursive: true, force: true })));
+  });
+
+  it('lists conversations from its index without reading the data files', async () => {
+    const directory = await createDirectory();
+    const store = new FileConversationStore(directory);
+    await store.set('19:a@thread.v2', createData('19:a@thread.v2'));
+    await store.set('a:personal;1', createData('a:personal;1'));
+    await store.delete('19:a@thread.v2');
+    assert.deepEqual(await store.keys(), ['a:personal;1']);
+    assert.deepEqual(JSON.parse(await fs.readFile(path.join(directory, 'index.json'), 'utf8')), ['a:personal;1']);
+
+    // A fresh store reads the index, even if a data file can't be parsed
+    const file = (await fs.readdir(directory)).find(name => name !== 'index.json')!;
+    await fs.writeFile(path.join(directory, file), 'not json');
+    assert.deepEqual(await new FileConversationStore(directory).keys(), ['a:personal;1']);
+  });
+
+  it('rebuilds a missing or outdated index from the data files', async () => {
+    const directory = await createDirectory();
+    const store = new FileConversationStore(directory);
+    await store.set('one', createData('one'));
+    await store.set('two', createData('two'));
+    await fs.writeFile(path.join(directory, 'index.json'), JSON.stringify(['one']));
+    assert.deepEqual((await new FileConversationStore(directory).keys()).sort(), ['one', 'two']);
+    await fs.rm(path.join(directory, 'index.json'));
+    assert.deepEqual((await new FileConversationStore(directory).keys()).sort(), ['one', 'two']);
+  });
+
+  it('remembers message authors for 🌯 reactions across restarts', async () => {
+    const directory = await createDirectory();
+    const data = createData('chat');
+    rememberMessageAuthor(data, 'message-1', { id: 'ann', name: 'Ann Smith' });
+    await new FileConversationStore(directory).set('chat', data);
+    const reloaded = (await new FileConversationStore(directory).get('chat'))!;
+    assert.deepEqual(getMessageAuthor(reloaded, 'message-1'), { id: 'ann', name: 'Ann Smith' });
+    assert.equal(getMessageAuthor(reloaded, 'message-2'), undefined);
+  });
+
+  it('keeps data on the writable home share on Azure', () => {
+    assert.equal(getDefaultDataDirectory({ RUNNING_ON_AZURE: '1', HOME: '/home' }), path.join('/home', 'data', 'burritobot'));
+    assert.equal(getDefaultDataDirectory({}), path.join(process.cwd(), 'data'));
+  });
+});